@@ -1,8 +1,13 @@
-import React, { useState, useEffect } from 'react';
-import { AppTab, VocabCard, VocabFolder } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppTab, ImportPlan, ImportResolution, ImportSummary, UserSettings, VocabCard, VocabFolder } from './types';
 import { TranslateTab } from './components/TranslateTab';
+import { ReaderTab } from './components/ReaderTab';
 import { VocabTab } from './components/VocabTab';
 import { QuizTab } from './components/QuizTab';
+import { SettingsPanel } from './components/SettingsPanel';
+import { loadSettings, saveSettings, speechProfileOf } from './services/settingsStore';
+import { migrateCard } from './services/examples';
+import { applyImport } from './services/vocabImport';
 
 function App() {
   const [activeTab, setActiveTab] = useState<AppTab>(AppTab.TRANSLATE);
@@ -10,6 +15,10 @@ function App() {
   const [folders, setFolders] = useState<VocabFolder[]>([]);
   const [showNotification, setShowNotification] = useState(false);
   const [notificationMsg, setNotificationMsg] = useState('');
+  const [settings, setSettings] = useState<UserSettings>(() => loadSettings());
+  const [showSettings, setShowSettings] = useState(false);
+  const foldersRef = useRef(folders); // Latest folders, for updates that finish after a re-render
+  foldersRef.current = folders;
 
   // Load Data from LocalStorage
   useEffect(() => {
@@ -17,7 +26,7 @@ function App() {
     if (saved) {
       try {
         const data = JSON.parse(saved);
-        if (data.vocabulary) setVocabulary(data.vocabulary);
+        if (data.vocabulary) setVocabulary(data.vocabulary.map(migrateCard));
         if (data.folders) setFolders(data.folders);
       } catch (e) {
         console.error("Error parsing local storage data", e);
@@ -30,6 +39,11 @@ function App() {
     localStorage.setItem('thaiMasterData', JSON.stringify({ vocabulary: newVocab, folders: newFolders }));
   };
 
+  const updateSettings = (newSettings: UserSettings) => {
+    setSettings(newSettings);
+    saveSettings(newSettings);
+  };
+
   // Vocab Actions
   const addToVocab = (card: VocabCard) => {
     const newVocab = [...vocabulary, card];
@@ -41,6 +55,18 @@ function App() {
     setTimeout(() => setShowNotification(false), 2000);
   };
 
+  // Saves several cards in one update (e.g. bulk-saving segments from history)
+  const addManyToVocab = (cards: VocabCard[]) => {
+    if (cards.length === 0) return;
+    const newVocab = [...vocabulary, ...cards];
+    setVocabulary(newVocab);
+    saveToLocalStorage(newVocab, folders);
+
+    setNotificationMsg(`Saved ${cards.length} ${cards.length === 1 ? 'card' : 'cards'} to Flashcards`);
+    setShowNotification(true);
+    setTimeout(() => setShowNotification(false), 2000);
+  };
+
   const deleteFromVocab = (id: string) => {
     const newVocab = vocabulary.filter(c => c.id !== id);
     setVocabulary(newVocab);
@@ -53,6 +79,16 @@ function App() {
     saveToLocalStorage(newVocab, folders);
   };
 
+  // Updates a card from its latest state, for async work (e.g. generated examples)
+  // that may finish after other changes to the deck
+  const updateCardById = (id: string, update: (card: VocabCard) => VocabCard) => {
+    setVocabulary(prev => {
+      const newVocab = prev.map(c => c.id === id ? update(c) : c);
+      saveToLocalStorage(newVocab, foldersRef.current);
+      return newVocab;
+    });
+  };
+
   // Folder Actions
   const createFolder = (name: string) => {
     const newFolder: VocabFolder = {
@@ -87,43 +123,20 @@ function App() {
      updateVocabCard(card);
   };
 
-  // Import Data
-  const importData = (importedVocab: VocabCard[], importedFolders: VocabFolder[]) => {
-    // Simple merge logic: Add items if their ID does not exist
-    let addedCards = 0;
-    const existingVocabIds = new Set(vocabulary.map(v => v.id));
-    const newVocab = [...vocabulary];
-    
-    importedVocab.forEach(card => {
-        if (!existingVocabIds.has(card.id)) {
-            newVocab.push(card);
-            addedCards++;
-        }
-    });
-
-    const existingFolderIds = new Set(folders.map(f => f.id));
-    const newFolders = [...folders];
-    
-    importedFolders.forEach(folder => {
-        if (!existingFolderIds.has(folder.id)) {
-            newFolders.push(folder);
-        }
-    });
-
-    setVocabulary(newVocab);
-    setFolders(newFolders);
-    saveToLocalStorage(newVocab, newFolders);
-    
-    setNotificationMsg(`Imported ${addedCards} new cards`);
-    setShowNotification(true);
-    setTimeout(() => setShowNotification(false), 2000);
+  // Import Data: the plan (see vocabImport.ts) was previewed and its conflicts resolved by the user
+  const importData = (plan: ImportPlan, resolutions: ImportResolution[]): ImportSummary => {
+    const result = applyImport(vocabulary, folders, plan, resolutions);
+    setVocabulary(result.vocabulary);
+    setFolders(result.folders);
+    saveToLocalStorage(result.vocabulary, result.folders);
+    return result.summary;
   };
 
   return (
     <div className="min-h-screen bg-gray-50 text-gray-800 font-sans selection:bg-thai-100 selection:text-thai-800 pb-20">
       {/* Header */}
       <header className="bg-white sticky top-0 z-30 border-b border-gray-100 shadow-sm backdrop-blur-md bg-opacity-90">
-        <div className="max-w-2xl mx-auto px-4 h-16 flex items-center justify-between">
+        <div className="max-w-2xl mx-auto px-4 h-16 flex items-center justify-between relative">
             <div className="flex items-center gap-2">
                <div className="w-8 h-8 bg-gradient-to-tr from-thai-600 to-thai-400 rounded-lg flex items-center justify-center text-white font-bold shadow-md">
                   ก
@@ -131,10 +144,26 @@ function App() {
                <h1 className="text-xl font-bold tracking-tight text-gray-900">TukTuk Thai</h1>
             </div>
             
-            {/* Simple Stats */}
-            <div className="text-xs font-medium text-gray-400 bg-gray-50 px-2 py-1 rounded-lg border border-gray-100">
-               {vocabulary.length} words
+            <div className="flex items-center gap-2">
+               {/* Simple Stats */}
+               <div className="text-xs font-medium text-gray-400 bg-gray-50 px-2 py-1 rounded-lg border border-gray-100">
+                  {vocabulary.length} words
+               </div>
+               <button
+                 onClick={() => setShowSettings(!showSettings)}
+                 className={`p-1.5 rounded-lg transition-colors ${showSettings ? 'text-thai-600 bg-thai-50' : 'text-gray-400 hover:text-gray-600'}`}
+                 title="Settings"
+               >
+                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                 </svg>
+               </button>
             </div>
+
+            {showSettings && (
+              <SettingsPanel settings={settings} onChange={updateSettings} onClose={() => setShowSettings(false)} />
+            )}
         </div>
       </header>
 
@@ -153,11 +182,26 @@ function App() {
         <div className={activeTab === AppTab.TRANSLATE ? 'block' : 'hidden'}>
           <TranslateTab 
              onAddToVocab={addToVocab} 
+             onAddManyToVocab={addManyToVocab}
+             onUpdateCard={updateCardById}
              vocabulary={vocabulary}
              folders={folders}
+             romanization={settings.romanization}
+             toneColors={settings.toneColors}
+             speechProfile={speechProfileOf(settings)}
           />
         </div>
         
+        <div className={activeTab === AppTab.READER ? 'block' : 'hidden'}>
+          <ReaderTab
+             onAddToVocab={addToVocab}
+             vocabulary={vocabulary}
+             folders={folders}
+             romanization={settings.romanization}
+             toneColors={settings.toneColors}
+          />
+        </div>
+
         <div className={activeTab === AppTab.VOCABULARY ? 'block' : 'hidden'}>
           <VocabTab 
             vocabulary={vocabulary} 
@@ -167,11 +211,18 @@ function App() {
             onDeleteFolder={deleteFolder}
             onMoveCard={moveCard}
             onImport={importData}
+            onUpdateCard={updateCardById}
+            romanization={settings.romanization}
+            toneColors={settings.toneColors}
+            speechProfile={speechProfileOf(settings)}
+            studyFront={settings.studyFront}
+            onStudyFrontChange={(studyFront) => updateSettings({ ...settings, studyFront })}
+            isActive={activeTab === AppTab.VOCABULARY}
           />
         </div>
 
         <div className={activeTab === AppTab.QUIZ ? 'block' : 'hidden'}>
-          <QuizTab vocabulary={vocabulary} folders={folders} />
+          <QuizTab vocabulary={vocabulary} folders={folders} onUpdateCard={updateCardById} toneColors={settings.toneColors} />
         </div>
       </main>
 
@@ -187,6 +238,16 @@ function App() {
              </svg>
              <span className="text-[10px] font-bold">Translate</span>
            </button>
+
+           <button 
+             onClick={() => setActiveTab(AppTab.READER)}
+             className={`flex flex-col items-center gap-1 p-2 rounded-xl transition-all w-20 ${activeTab === AppTab.READER ? 'text-thai-600 bg-thai-50' : 'text-gray-400 hover:text-gray-600'}`}
+           >
+             <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+             </svg>
+             <span className="text-[10px] font-bold">Reader</span>
+           </button>
            
            <button 
              onClick={() => setActiveTab(AppTab.VOCABULARY)}
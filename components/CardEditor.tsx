@@ -0,0 +1,387 @@
+import React, { useState } from 'react';
+import { CardRevision, ExampleLevel, RomanizationScheme, SpeechProfile, VocabCard, VocabFolder, WordSense } from '../types';
+import { reviseCard } from '../services/geminiService';
+import { EXAMPLE_LEVELS, newExampleId } from '../services/examples';
+import { cardTransliteration, romanizeOr } from '../services/romanization';
+import { RequestError } from './RequestError';
+import { useCancellableRequest } from './useCancellableRequest';
+
+interface CardEditorProps {
+  card: VocabCard;
+  folders: VocabFolder[];
+  onUpdateCard: (id: string, update: (card: VocabCard) => VocabCard) => void;
+  onClose: () => void;
+  speechProfile: SpeechProfile;
+  romanization: RomanizationScheme;
+}
+
+type TextField = 'thai' | 'transliteration' | 'english' | 'partOfSpeech' | 'classifier';
+type RevisionField = Exclude<keyof CardRevision, 'examples'>;
+
+const THAI_CHAR = /[\u0E00-\u0E7F]/;
+
+const TEXT_FIELDS: { id: TextField; label: string; thai?: boolean }[] = [
+  { id: 'thai', label: 'Thai', thai: true },
+  { id: 'transliteration', label: 'Transliteration' },
+  { id: 'english', label: 'English' },
+  { id: 'partOfSpeech', label: 'Part of speech' },
+  { id: 'classifier', label: 'Classifier', thai: true },
+];
+
+const REVISION_FIELDS: { id: RevisionField; label: string }[] = [
+  { id: 'transliteration', label: 'Transliteration' },
+  { id: 'english', label: 'English' },
+  { id: 'partOfSpeech', label: 'Part of speech' },
+  { id: 'classifier', label: 'Classifier' },
+];
+
+// Problems keyed by field ("thai", "senses.0", "examples.2", ...); empty when the card can be saved
+const validateDraft = (draft: VocabCard): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  if (!draft.thai.trim()) errors.thai = 'Required';
+  else if (!THAI_CHAR.test(draft.thai)) errors.thai = 'Must contain Thai script';
+  if (!draft.transliteration.trim()) errors.transliteration = 'Required';
+  else if (THAI_CHAR.test(draft.transliteration)) errors.transliteration = 'Use Latin letters, not Thai script';
+  if (!draft.english.trim()) errors.english = 'Required';
+  if (draft.classifier?.trim() && !THAI_CHAR.test(draft.classifier)) errors.classifier = 'Must be a Thai word';
+  draft.senses?.forEach((sense, idx) => {
+    if (!sense.definition.trim()) errors[`senses.${idx}`] = 'Meaning is empty';
+  });
+  draft.examples?.forEach((example, idx) => {
+    if (!THAI_CHAR.test(example.thai)) errors[`examples.${idx}`] = 'Thai sentence is missing';
+    else if (!example.english.trim()) errors[`examples.${idx}`] = 'Translation is missing';
+  });
+  return errors;
+};
+
+// Trimmed copy, with empty optional fields and the background-examples status removed
+const cleanDraft = (draft: VocabCard): VocabCard => {
+  const { partOfSpeech, classifier, transliterationEdited, exampleStatus, ...rest } = draft;
+  return {
+    ...rest,
+    thai: draft.thai.trim(),
+    transliteration: draft.transliteration.trim(),
+    english: draft.english.trim(),
+    ...(partOfSpeech?.trim() ? { partOfSpeech: partOfSpeech.trim() } : {}),
+    ...(classifier?.trim() ? { classifier: classifier.trim() } : {}),
+    senses: draft.senses?.map(s => ({ ...s, definition: s.definition.trim() })),
+    examples: draft.examples?.map(e => ({ ...e, thai: e.thai.trim(), english: e.english.trim() })),
+  };
+};
+
+const inputClass = (hasError: boolean) =>
+  `w-full border rounded-lg px-3 py-2 text-sm outline-none transition-colors focus:border-thai-500 focus:ring-2 focus:ring-thai-100 ${hasError ? 'border-red-300 bg-red-50' : 'border-gray-200 bg-gray-50 focus:bg-white'}`;
+
+// Edits every field of a card. "Re-analyze with AI" proposes corrections that are
+// shown next to the current values and accepted one field at a time; nothing is
+// saved until Save. A transliteration typed to differ from the automatic one is saved
+// as the user's own and shown as written from then on; otherwise it follows the Thai.
+export const CardEditor: React.FC<CardEditorProps> = ({ card, folders, onUpdateCard, onClose, speechProfile, romanization }) => {
+  const [draft, setDraft] = useState<VocabCard>(() => ({ ...card, transliteration: cardTransliteration(card, romanization) }));
+  const [isOwnTransliteration, setIsOwnTransliteration] = useState(!!card.transliterationEdited);
+  const [revision, setRevision] = useState<CardRevision | null>(null);
+  const { run, isRunning: isRevising, error: reviseError } = useCancellableRequest('Card revision');
+
+  const errors = validateDraft(draft);
+  const isValid = Object.keys(errors).length === 0;
+
+  // What the card shows when the user hasn't written their own transliteration. The saved
+  // spelling only belongs to the card's original Thai, so a corrected word is romanized afresh.
+  const automaticTransliteration = (thai: string) =>
+    romanizeOr(thai, thai === card.thai.trim() && !card.transliterationEdited ? card.transliteration : '', romanization);
+
+  const setField = (field: TextField, value: string) => {
+    if (field === 'thai' && !isOwnTransliteration) {
+      setDraft(prev => ({ ...prev, thai: value, transliteration: automaticTransliteration(value.trim()) }));
+      return;
+    }
+    if (field === 'transliteration') setIsOwnTransliteration(value.trim() !== automaticTransliteration(draft.thai.trim()));
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  const updateSense = (idx: number, update: Partial<WordSense>) =>
+    setDraft(prev => ({ ...prev, senses: prev.senses?.map((s, i) => i === idx ? { ...s, ...update } : s) }));
+
+  const removeSense = (idx: number) =>
+    setDraft(prev => ({ ...prev, senses: prev.senses?.filter((_, i) => i !== idx) }));
+
+  const updateExample = (id: string, update: { thai?: string; english?: string; level?: ExampleLevel }) =>
+    setDraft(prev => ({ ...prev, examples: prev.examples?.map(e => e.id === id ? { ...e, ...update } : e) }));
+
+  const removeExample = (id: string) =>
+    setDraft(prev => ({ ...prev, examples: prev.examples?.filter(e => e.id !== id) }));
+
+  const addExample = () =>
+    setDraft(prev => ({ ...prev, examples: [...(prev.examples || []), { id: newExampleId(), thai: '', english: '', level: 'beginner' }] }));
+
+  const handleRevise = async () => {
+    const proposed = await run(signal => reviseCard(cleanDraft(draft), signal, speechProfile));
+    if (proposed) setRevision(proposed);
+  };
+
+  // Proposed values that differ from the draft
+  const changedFields = revision
+    ? REVISION_FIELDS.filter(f => revision[f.id] && revision[f.id] !== (draft[f.id] || '').trim())
+    : [];
+  const examplesChanged = !!revision && revision.examples.length > 0
+    && JSON.stringify(revision.examples) !== JSON.stringify((draft.examples || []).map(({ thai, english, level }) => ({ thai, english, level })));
+  const hasProposals = changedFields.length > 0 || examplesChanged;
+
+  const acceptField = (field: RevisionField) => revision && setField(field, revision[field]);
+
+  const acceptExamples = () => revision && setDraft(prev => ({
+    ...prev,
+    examples: revision.examples.map(e => ({ ...e, id: newExampleId() })),
+  }));
+
+  const acceptAll = () => {
+    changedFields.forEach(f => acceptField(f.id));
+    if (examplesChanged) acceptExamples();
+  };
+
+  // Applied to the card's latest state, so examples generated while the editor was open are kept
+  const handleSave = () => {
+    if (!isValid) return;
+    const saved = cleanDraft(draft);
+    const keepsSavedSpelling = !isOwnTransliteration && !card.transliterationEdited && saved.thai === card.thai.trim();
+    const edited: VocabCard = isOwnTransliteration
+      ? { ...saved, transliterationEdited: true }
+      // Keep the provider's spelling for the "As saved" scheme while the Thai is unchanged
+      : { ...saved, transliteration: keepsSavedSpelling ? card.transliteration : saved.transliteration };
+    onUpdateCard(card.id, current => {
+      const arrived = (current.examples || []).filter(e => !card.examples?.some(old => old.id === e.id));
+      return {
+        ...edited,
+        ...(arrived.length > 0 ? { examples: [...(edited.examples || []), ...arrived] } : {}),
+        ...(current.exampleStatus ? { exampleStatus: current.exampleStatus } : {}),
+      };
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-gray-100">
+          <h2 className="text-lg font-bold text-gray-800">Edit card</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+          {/* AI corrections */}
+          <div className="bg-thai-50/50 border border-thai-100 rounded-xl p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-[10px] font-bold text-thai-700 uppercase tracking-wider">AI check</span>
+              <div className="flex gap-1">
+                {hasProposals && (
+                  <button
+                    onClick={acceptAll}
+                    className="text-[10px] font-bold text-white bg-thai-600 hover:bg-thai-700 px-2 py-1 rounded-full transition-colors"
+                  >
+                    Accept all
+                  </button>
+                )}
+                <button
+                  onClick={handleRevise}
+                  disabled={isRevising || !!errors.thai}
+                  className="text-[10px] font-bold text-thai-600 bg-white border border-thai-200 hover:bg-thai-100 px-2 py-1 rounded-full transition-colors disabled:opacity-50"
+                >
+                  {isRevising ? 'Checking...' : 'Re-analyze with AI'}
+                </button>
+              </div>
+            </div>
+
+            {reviseError && <RequestError error={reviseError} onRetry={handleRevise} isRetrying={isRevising} />}
+            {revision && !hasProposals && !isRevising && (
+              <p className="text-xs text-gray-500">No changes suggested.</p>
+            )}
+
+            {changedFields.map(field => (
+              <div key={field.id} className="bg-white rounded-lg p-2 border border-gray-100 flex items-center gap-2">
+                <div className="flex-1 min-w-0 text-xs">
+                  <div className="text-[9px] font-bold text-gray-400 uppercase">{field.label}</div>
+                  <div className="text-red-600 line-through break-words">{draft[field.id] || '(empty)'}</div>
+                  <div className="text-green-700 font-medium break-words">{revision![field.id]}</div>
+                </div>
+                <button
+                  onClick={() => acceptField(field.id)}
+                  className="text-[10px] font-bold text-green-700 bg-green-50 hover:bg-green-100 px-2 py-1 rounded-lg transition-colors"
+                >
+                  Accept
+                </button>
+              </div>
+            ))}
+
+            {examplesChanged && (
+              <div className="bg-white rounded-lg p-2 border border-gray-100 flex items-start gap-2">
+                <div className="flex-1 min-w-0 text-xs space-y-1">
+                  <div className="text-[9px] font-bold text-gray-400 uppercase">Examples</div>
+                  {(draft.examples || []).map(e => (
+                    <div key={e.id} className="text-red-600 line-through font-thai">{e.thai}</div>
+                  ))}
+                  {revision!.examples.map((e, idx) => (
+                    <div key={idx} className="text-green-700">
+                      <span className="font-thai font-medium">{e.thai}</span>
+                      <span className="italic"> · {e.english}</span>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={acceptExamples}
+                  className="text-[10px] font-bold text-green-700 bg-green-50 hover:bg-green-100 px-2 py-1 rounded-lg transition-colors"
+                >
+                  Accept
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Fields */}
+          <div className="grid grid-cols-2 gap-3">
+            {TEXT_FIELDS.map(field => (
+              <label key={field.id} className={field.id === 'english' ? 'col-span-2' : ''}>
+                <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">{field.label}</span>
+                <input
+                  type="text"
+                  value={draft[field.id] || ''}
+                  onChange={(e) => setField(field.id, e.target.value)}
+                  className={`${inputClass(!!errors[field.id])} ${field.thai ? 'font-thai' : ''}`}
+                />
+                {errors[field.id] && <span className="text-[10px] text-red-600">{errors[field.id]}</span>}
+                {field.id === 'transliteration' && !errors.transliteration && isOwnTransliteration && (
+                  <span className="text-[10px] text-gray-400">
+                    Shown as written.{' '}
+                    <button
+                      type="button"
+                      onClick={() => setField('transliteration', automaticTransliteration(draft.thai.trim()))}
+                      className="font-bold text-thai-600 hover:text-thai-700"
+                    >
+                      Use automatic
+                    </button>
+                  </span>
+                )}
+              </label>
+            ))}
+            <label>
+              <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Folder</span>
+              <select
+                value={draft.folderId || ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, folderId: e.target.value || undefined }))}
+                className={inputClass(false)}
+              >
+                <option value="">General</option>
+                {folders.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+              </select>
+            </label>
+          </div>
+
+          {draft.senses && draft.senses.length > 0 && (
+            <div className="space-y-1.5">
+              <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Meanings</span>
+              {draft.senses.map((sense, idx) => (
+                <div key={idx}>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-bold text-gray-300">{idx + 1}.</span>
+                    <input
+                      type="text"
+                      value={sense.definition}
+                      onChange={(e) => updateSense(idx, { definition: e.target.value })}
+                      className={inputClass(!!errors[`senses.${idx}`])}
+                    />
+                    <button onClick={() => removeSense(idx)} className="text-gray-300 hover:text-red-500 p-1" title="Remove meaning">
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                        <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                      </svg>
+                    </button>
+                  </div>
+                  {errors[`senses.${idx}`] && <span className="text-[10px] text-red-600 ml-5">{errors[`senses.${idx}`]}</span>}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Examples</span>
+              <button
+                onClick={addExample}
+                className="text-[10px] font-bold text-gray-500 bg-gray-100 hover:bg-thai-50 hover:text-thai-600 px-2 py-1 rounded-full transition-colors"
+              >
+                + Example
+              </button>
+            </div>
+            {(draft.examples || []).map((example, idx) => (
+              <div key={example.id} className="bg-gray-50 rounded-lg p-2 space-y-1.5">
+                <div className="flex items-center gap-2">
+                  <select
+                    value={example.level}
+                    onChange={(e) => updateExample(example.id, { level: e.target.value as ExampleLevel })}
+                    className="text-xs border border-gray-200 rounded-lg px-2 py-1 bg-white"
+                  >
+                    {EXAMPLE_LEVELS.map(level => <option key={level.id} value={level.id}>{level.label}</option>)}
+                  </select>
+                  <div className="flex-1"></div>
+                  <button onClick={() => removeExample(example.id)} className="text-gray-300 hover:text-red-500 p-1" title="Remove example">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                      <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                    </svg>
+                  </button>
+                </div>
+                <input
+                  type="text"
+                  value={example.thai}
+                  onChange={(e) => updateExample(example.id, { thai: e.target.value })}
+                  placeholder="Thai sentence"
+                  className={`${inputClass(!!errors[`examples.${idx}`])} font-thai`}
+                />
+                <input
+                  type="text"
+                  value={example.english}
+                  onChange={(e) => updateExample(example.id, { english: e.target.value })}
+                  placeholder="English translation"
+                  className={inputClass(!!errors[`examples.${idx}`])}
+                />
+                {errors[`examples.${idx}`] && <span className="text-[10px] text-red-600">{errors[`examples.${idx}`]}</span>}
+              </div>
+            ))}
+          </div>
+
+          {draft.schedule && (
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              <span>Reviewed {draft.schedule.reps} times in a row, forgotten {draft.schedule.lapses} times</span>
+              <button
+                onClick={() => setDraft(({ schedule, ...rest }) => rest)}
+                className="text-[10px] font-bold text-gray-500 hover:text-red-600 transition-colors"
+              >
+                Reset progress
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2 px-5 py-3 border-t border-gray-100">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2.5 text-gray-600 font-medium bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isValid}
+            className="flex-1 bg-thai-600 text-white px-4 py-2.5 rounded-xl font-bold hover:bg-thai-700 transition-colors text-sm disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { ExampleLevel, ExampleSentence, SpeechProfile, VocabCard } from '../types';
+import { generateExamples } from '../services/geminiService';
+import { EXAMPLE_LEVELS } from '../services/examples';
+import { AudioPlayer } from './AudioPlayer';
+import { ToneText } from './ToneText';
+import { RequestError } from './RequestError';
+import { useCancellableRequest } from './useCancellableRequest';
+
+interface CardExamplesProps {
+  card: VocabCard;
+  onUpdateCard: (id: string, update: (card: VocabCard) => VocabCard) => void;
+  speechProfile: SpeechProfile;
+  toneColors: boolean;
+}
+
+const LEVEL_BADGES: Record<ExampleLevel, string> = {
+  beginner: 'bg-green-50 text-green-600',
+  intermediate: 'bg-blue-50 text-blue-600',
+  advanced: 'bg-purple-50 text-purple-600',
+};
+
+// What is being generated: a new example at a level, or a replacement for one example
+type Pending = { level: ExampleLevel; replaceId?: string };
+
+// A card's example sentences, with generate, regenerate and delete
+export const CardExamples: React.FC<CardExamplesProps> = ({ card, onUpdateCard, speechProfile, toneColors }) => {
+  const [pending, setPending] = useState<Pending | null>(null);
+  const [lastRequest, setLastRequest] = useState<Pending | null>(null); // Repeated by Retry
+  // Stops generating when the card goes away
+  const { run, error } = useCancellableRequest('Example generation');
+
+  const examples = card.examples || [];
+  const isWriting = card.exampleStatus === 'generating'; // Requested when the card was saved
+
+  const generate = async (request: Pending) => {
+    setPending(request);
+    setLastRequest(request);
+    const generated = await run(signal => generateExamples({
+      thai: card.thai,
+      english: card.english,
+      levels: [request.level],
+      avoid: examples.map(e => e.thai),
+    }, signal, speechProfile));
+    setPending(null);
+    if (!generated) return;
+
+    const [fresh] = generated;
+    // Applied to the latest card, which may have changed while this was running
+    onUpdateCard(card.id, ({ exampleStatus, ...current }) => {
+      const list = current.examples || [];
+      return {
+        ...current,
+        examples: request.replaceId ? list.map(e => e.id === request.replaceId ? fresh : e) : [...list, fresh],
+      };
+    });
+  };
+
+  const handleDelete = (example: ExampleSentence) => {
+    onUpdateCard(card.id, current => ({
+      ...current,
+      examples: (current.examples || []).filter(e => e.id !== example.id),
+    }));
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      {examples.map(example => (
+        <div key={example.id} className={`bg-gray-50 p-3 rounded-lg text-sm ${pending?.replaceId === example.id ? 'animate-pulse' : ''}`}>
+          <div className="flex items-start gap-2">
+            <span className={`text-[9px] font-bold uppercase px-1.5 py-0.5 rounded mt-0.5 ${LEVEL_BADGES[example.level]}`}>
+              {EXAMPLE_LEVELS.find(l => l.id === example.level)?.label}
+            </span>
+            <div className="flex-1 min-w-0">
+              <p className="font-thai text-gray-700 mb-1"><ToneText text={example.thai} colored={toneColors} /></p>
+              <p className="text-gray-500 italic">{example.english}</p>
+            </div>
+            <AudioPlayer text={example.thai} size="sm" />
+            <button
+              onClick={() => generate({ level: example.level, replaceId: example.id })}
+              disabled={!!pending}
+              className="text-gray-300 hover:text-thai-600 p-1 disabled:opacity-50"
+              title="Regenerate"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+            </button>
+            <button
+              onClick={() => handleDelete(example)}
+              disabled={pending?.replaceId === example.id}
+              className="text-gray-300 hover:text-red-500 p-1 disabled:opacity-50"
+              title="Delete example"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {isWriting && <p className="text-xs text-gray-400 animate-pulse">Writing examples...</p>}
+      {card.exampleStatus === 'failed' && examples.length === 0 && (
+        <p className="text-xs text-gray-400">Examples couldn't be written when this card was saved. Add them below.</p>
+      )}
+
+      <div className="flex items-center gap-1.5 flex-wrap">
+        <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mr-1">Add example</span>
+        {EXAMPLE_LEVELS.map(level => (
+          <button
+            key={level.id}
+            onClick={() => generate({ level: level.id })}
+            disabled={!!pending || isWriting}
+            className="text-[10px] font-bold text-gray-500 bg-gray-100 hover:bg-thai-50 hover:text-thai-600 px-2 py-1 rounded-full transition-colors disabled:opacity-50"
+          >
+            {pending && !pending.replaceId && pending.level === level.id ? 'Writing...' : `+ ${level.label}`}
+          </button>
+        ))}
+      </div>
+      {error && (
+        <RequestError error={error} onRetry={lastRequest ? () => generate(lastRequest) : undefined} isRetrying={!!pending} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,268 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ReviewGrade, RomanizationScheme, StudyFront, VocabCard } from '../types';
+import { cardTransliteration } from '../services/romanization';
+import { cardMeanings } from '../services/senses';
+import { REVIEW_GRADES, dueLabel, reviewCard } from '../services/srs';
+import { AudioPlayer } from './AudioPlayer';
+import { ToneText } from './ToneText';
+
+interface FlashcardStudyProps {
+  title: string;
+  cardIds: string[]; // Cards to study, in order
+  vocabulary: VocabCard[]; // Latest cards, so grades build on the current schedule
+  front: StudyFront;
+  onFrontChange: (front: StudyFront) => void;
+  onUpdateCard: (id: string, update: (card: VocabCard) => VocabCard) => void;
+  onClose: () => void;
+  romanization: RomanizationScheme;
+  toneColors: boolean;
+  isActive: boolean; // False while another tab is shown, which keeps this mounted but hidden
+}
+
+const GRADE_BUTTONS: Record<ReviewGrade, string> = {
+  again: 'bg-red-50 text-red-700 border-red-200 hover:bg-red-100',
+  hard: 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100',
+  good: 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100',
+  easy: 'bg-blue-50 text-blue-700 border-blue-200 hover:bg-blue-100',
+};
+
+const SWIPE_PX = 60;
+
+// Fields take every key; buttons and links keep Space and Enter so they still activate
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement ||
+  target instanceof HTMLSelectElement || (target instanceof HTMLElement && target.isContentEditable);
+
+const isControl = (target: EventTarget | null) =>
+  target instanceof HTMLElement && target.closest('button, a[href], [role="button"]') !== null;
+
+// Flip-card study: show one side, reveal the other, grade yourself. Cards graded
+// Again come back at the end of the session. Space flips, 1-4 grade; swiping
+// flips, then left is Again and right is Good.
+export const FlashcardStudy: React.FC<FlashcardStudyProps> = ({
+  title, cardIds, vocabulary, front, onFrontChange, onUpdateCard, onClose, romanization, toneColors, isActive
+}) => {
+  const [queue, setQueue] = useState<string[]>(cardIds);
+  const [position, setPosition] = useState(0);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [missedIds, setMissedIds] = useState<string[]>([]);
+  const [gradeCounts, setGradeCounts] = useState<Record<ReviewGrade, number>>({ again: 0, hard: 0, good: 0, easy: 0 });
+  const touchStartRef = useRef<{ x: number; y: number } | null>(null);
+
+  const card = vocabulary.find(c => c.id === queue[position]);
+  const isDone = position >= queue.length;
+
+  // Skip cards deleted while the session is open
+  useEffect(() => {
+    if (!isDone && !card) setPosition(p => p + 1);
+  }, [isDone, card]);
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!card || !isFlipped) return;
+    onUpdateCard(card.id, c => reviewCard(c, grade));
+    setGradeCounts(prev => ({ ...prev, [grade]: prev[grade] + 1 }));
+    if (grade === 'again') {
+      setQueue(prev => [...prev, card.id]);
+      setMissedIds(prev => prev.includes(card.id) ? prev : [...prev, card.id]);
+    }
+    setIsFlipped(false);
+    setPosition(p => p + 1);
+  };
+
+  const restart = (ids: string[]) => {
+    setQueue(ids);
+    setPosition(0);
+    setIsFlipped(false);
+    setMissedIds([]);
+    setGradeCounts({ again: 0, hard: 0, good: 0, easy: 0 });
+  };
+
+  // Re-registered each render so it always sees the current card
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!isActive || isTextField(e.target)) return;
+      if (e.key === 'Escape') {
+        onClose();
+      } else if (e.key === ' ' || e.key === 'Enter') {
+        if (isDone || isControl(e.target)) return;
+        e.preventDefault();
+        setIsFlipped(f => !f);
+      } else {
+        const grade = REVIEW_GRADES.find(g => g.key === e.key);
+        if (grade) handleGrade(grade.id);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    touchStartRef.current = { x: e.touches[0].clientX, y: e.touches[0].clientY };
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    const start = touchStartRef.current;
+    touchStartRef.current = null;
+    if (!start) return;
+    const dx = e.changedTouches[0].clientX - start.x;
+    const dy = e.changedTouches[0].clientY - start.y;
+    if (Math.abs(dx) < SWIPE_PX || Math.abs(dx) < Math.abs(dy)) return;
+    if (!isFlipped) setIsFlipped(true);
+    else handleGrade(dx < 0 ? 'again' : 'good');
+  };
+
+  const header = (
+    <div className="flex items-center gap-3">
+      <button
+        onClick={onClose}
+        className="p-2 rounded-full hover:bg-gray-200 text-gray-500 transition-colors"
+        title="Stop studying"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+      </button>
+      <div className="flex-1 min-w-0">
+        <h2 className="text-xl font-bold text-gray-800 truncate">{title}</h2>
+        <p className="text-xs text-gray-500">{isDone ? 'Session complete' : `Card ${position + 1} of ${queue.length}`}</p>
+      </div>
+      <div className="flex gap-1 bg-gray-100 p-1 rounded-xl">
+        {(['thai', 'english'] as const).map(side => (
+          <button
+            key={side}
+            onClick={() => onFrontChange(side)}
+            className={`px-2 py-1 rounded-lg text-[10px] font-bold transition-colors ${front === side ? 'bg-white text-thai-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+            title="Side shown first"
+          >
+            {side === 'thai' ? 'ไทย first' : 'English first'}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  if (isDone) {
+    const missed = missedIds.map(id => vocabulary.find(c => c.id === id)).filter((c): c is VocabCard => !!c);
+    return (
+      <div className="space-y-4 animate-fade-in">
+        {header}
+        <div className="bg-white rounded-2xl p-5 shadow-sm border border-gray-100 space-y-4">
+          <div className="grid grid-cols-4 gap-2 text-center">
+            {REVIEW_GRADES.map(grade => (
+              <div key={grade.id} className={`rounded-xl border py-2 ${GRADE_BUTTONS[grade.id]}`}>
+                <div className="text-2xl font-bold">{gradeCounts[grade.id]}</div>
+                <div className="text-[10px] font-bold uppercase">{grade.label}</div>
+              </div>
+            ))}
+          </div>
+
+          {missed.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center">No cards missed.</p>
+          ) : (
+            <div>
+              <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-2">Missed ({missed.length})</h3>
+              <div className="space-y-1.5">
+                {missed.map(c => (
+                  <div key={c.id} className="flex items-center gap-2 bg-red-50/50 rounded-lg px-3 py-2">
+                    <span className="font-thai font-bold text-thai-700"><ToneText text={c.thai} colored={toneColors} /></span>
+                    <AudioPlayer text={c.thai} size="sm" />
+                    <span className="text-xs text-thai-500">{cardTransliteration(c, romanization)}</span>
+                    <span className="text-sm text-gray-700 flex-1 min-w-0 truncate text-right">{cardMeanings(c).join('; ')}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            {missed.length > 0 && (
+              <button
+                onClick={() => restart(missed.map(c => c.id))}
+                className="flex-1 bg-thai-600 text-white py-2.5 rounded-xl font-bold text-sm hover:bg-thai-700 transition-colors"
+              >
+                Study missed again
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="flex-1 bg-gray-100 text-gray-700 py-2.5 rounded-xl font-bold text-sm hover:bg-gray-200 transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!card) return null;
+
+  const now = Date.now();
+  const meanings = cardMeanings(card).join('; ');
+  const example = card.examples?.[0];
+  const thaiSide = (
+    <div className="text-4xl font-bold text-gray-800 font-thai break-words max-w-full">
+      <ToneText text={card.thai} colored={toneColors} />
+    </div>
+  );
+  const englishSide = <div className="text-2xl font-bold text-gray-800 break-words max-w-full">{meanings}</div>;
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      {header}
+
+      <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+        <div className="h-full bg-thai-500 rounded-full transition-all duration-300" style={{ width: `${(position / queue.length) * 100}%` }}></div>
+      </div>
+
+      <div
+        key={`${card.id}-${position}`}
+        onClick={() => !isFlipped && setIsFlipped(true)}
+        onTouchStart={handleTouchStart}
+        onTouchEnd={handleTouchEnd}
+        className={`min-h-[16rem] bg-white rounded-3xl p-6 shadow-lg border border-gray-100 flex flex-col items-center justify-center text-center gap-3 select-none animate-fade-in ${isFlipped ? '' : 'cursor-pointer'}`}
+      >
+        {front === 'thai' ? thaiSide : englishSide}
+
+        {!isFlipped ? (
+          <p className="text-[10px] font-bold text-gray-300 uppercase tracking-widest mt-4">Tap, swipe or press space to reveal</p>
+        ) : (
+          <div className="w-full border-t border-dashed border-gray-200 pt-3 space-y-2 animate-fade-in">
+            {front === 'thai' ? englishSide : thaiSide}
+            <div className="flex items-center justify-center gap-2">
+              <span className="text-sm text-thai-500 font-medium">{cardTransliteration(card, romanization)}</span>
+              <AudioPlayer text={card.thai} size="sm" />
+            </div>
+            {card.partOfSpeech && (
+              <span className="inline-block text-[9px] text-gray-400 bg-gray-100 px-1.5 py-0.5 rounded uppercase font-bold">{card.partOfSpeech}</span>
+            )}
+            {example && (
+              <div className="bg-gray-50 rounded-lg p-3 text-sm text-left flex items-start gap-2">
+                <div className="flex-1 min-w-0">
+                  <p className="font-thai text-gray-700"><ToneText text={example.thai} colored={toneColors} /></p>
+                  <p className="text-gray-500 italic">{example.english}</p>
+                </div>
+                <AudioPlayer text={example.thai} size="sm" />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {isFlipped && (
+        <div className="grid grid-cols-4 gap-2 animate-fade-in">
+          {REVIEW_GRADES.map(grade => (
+            <button
+              key={grade.id}
+              onClick={() => handleGrade(grade.id)}
+              className={`rounded-xl border-2 py-2 font-bold text-sm transition-colors ${GRADE_BUTTONS[grade.id]}`}
+            >
+              {grade.label}
+              <span className="block text-[10px] font-medium opacity-70">{dueLabel(reviewCard(card, grade.id, now), now)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { GrammarAnalysis, GrammarPointKind, Segment } from '../types';
+import { explainGrammar } from '../services/geminiService';
+import { ToneText } from './ToneText';
+import { RequestError } from './RequestError';
+import { useCancellableRequest } from './useCancellableRequest';
+
+interface GrammarPanelProps {
+  thai: string;
+  english: string;
+  segments: Segment[];
+  highlighted: number[]; // Segment indices currently highlighted in the breakdown
+  onHighlight: (indices: number[]) => void;
+  toneColors: boolean;
+}
+
+const KIND_BADGES: Record<GrammarPointKind, string> = {
+  question: 'bg-blue-50 text-blue-600',
+  negation: 'bg-red-50 text-red-600',
+  aspect: 'bg-green-50 text-green-600',
+  particle: 'bg-amber-50 text-amber-700',
+  politeness: 'bg-purple-50 text-purple-600',
+  other: 'bg-gray-100 text-gray-500',
+};
+
+// Grammar of the current sentence, requested only when the user asks for it so the
+// translate pipeline never waits on it. Remount (via `key`) for a new sentence.
+export const GrammarPanel: React.FC<GrammarPanelProps> = ({
+  thai, english, segments, highlighted, onHighlight, toneColors
+}) => {
+  const [grammar, setGrammar] = useState<GrammarAnalysis | null>(null);
+  const { run, isRunning: isLoading, error: requestError } = useCancellableRequest('Grammar explanation');
+
+  // A rule-based fallback still says why Gemini didn't answer, and offers a retry
+  const error = requestError || grammar?.remoteError;
+
+  const handleExplain = async () => {
+    const result = await run(signal => explainGrammar(thai, english, segments, signal));
+    if (result) setGrammar(result);
+  };
+
+  const isActive = (indices: number[]) =>
+    indices.length > 0 && indices.length === highlighted.length && indices.every(i => highlighted.includes(i));
+
+  return (
+    <div className="space-y-2 animate-fade-in px-1">
+      <div className="flex items-center justify-between ml-1">
+        <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Grammar</h3>
+        {!grammar && (
+          <button
+            onClick={handleExplain}
+            disabled={isLoading}
+            className="text-[10px] font-bold text-thai-600 bg-thai-50 hover:bg-thai-100 px-2 py-1 rounded-full transition-colors disabled:opacity-50"
+          >
+            {isLoading ? 'Explaining...' : 'Explain grammar'}
+          </button>
+        )}
+      </div>
+
+      {error && <RequestError error={error} onRetry={handleExplain} isRetrying={isLoading} />}
+
+      {grammar && (
+        <div className="bg-white rounded-xl p-3 shadow-sm border border-gray-100 space-y-2">
+          <p className="text-xs text-gray-700 font-medium">{grammar.structure}</p>
+          {grammar.isOffline && (
+            <p className="text-[10px] text-gray-400">Basic explanation from built-in rules; connect to Gemini for a full one.</p>
+          )}
+          {grammar.points.length === 0 && (
+            <p className="text-xs text-gray-400">No particles or markers to explain in this sentence.</p>
+          )}
+          {grammar.points.map((point, idx) => (
+            <button
+              key={idx}
+              onClick={() => onHighlight(isActive(point.segmentIndices) ? [] : point.segmentIndices)}
+              className={`w-full text-left rounded-lg p-2 border transition-colors ${
+                isActive(point.segmentIndices) ? 'border-thai-300 bg-thai-50' : 'border-gray-100 hover:bg-gray-50'
+              }`}
+              title="Highlight in the breakdown"
+            >
+              <div className="flex items-baseline gap-2 flex-wrap">
+                <span className={`text-[9px] font-bold uppercase px-1.5 py-0.5 rounded ${KIND_BADGES[point.kind]}`}>{point.kind}</span>
+                <span className="text-sm font-bold text-thai-700 font-thai">{point.title}</span>
+                {point.segmentIndices.filter(i => segments[i]).map(i => (
+                  <span key={i} className="text-[10px] text-gray-500 bg-gray-100 px-1.5 py-0.5 rounded font-thai">
+                    <ToneText text={segments[i].thai} colored={toneColors} />
+                  </span>
+                ))}
+              </div>
+              <p className="text-xs text-gray-600 mt-1">{point.explanation}</p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
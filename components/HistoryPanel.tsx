@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { HistoryEntry, Segment, VocabFolder } from '../types';
+import { searchHistory } from '../services/historyStore';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  folders: VocabFolder[];
+  defaultFolderId: string;
+  isSaved: (thaiText: string, english: string) => boolean;
+  onOpen: (entry: HistoryEntry) => void;
+  onTogglePin: (id: string) => void;
+  onDelete: (id: string) => void;
+  onBulkSave: (segments: Segment[], folderId: string) => void;
+  onClose: () => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  entries,
+  folders,
+  defaultFolderId,
+  isSaved,
+  onOpen,
+  onTogglePin,
+  onDelete,
+  onBulkSave,
+  onClose
+}) => {
+  const [query, setQuery] = useState('');
+  const [savingEntryId, setSavingEntryId] = useState<string | null>(null);
+  const [selectedIndices, setSelectedIndices] = useState<number[]>([]);
+  const [saveFolderId, setSaveFolderId] = useState(defaultFolderId);
+
+  const filtered = searchHistory(entries, query);
+  const pinned = filtered.filter(e => e.pinned);
+  const recent = filtered.filter(e => !e.pinned);
+
+  const startBulkSave = (entry: HistoryEntry) => {
+    if (savingEntryId === entry.id) {
+      setSavingEntryId(null);
+      return;
+    }
+    setSavingEntryId(entry.id);
+    setSaveFolderId(defaultFolderId);
+    // Pre-select every segment that isn't saved yet
+    setSelectedIndices(entry.result.segments
+      .map((s, idx) => (isSaved(s.thai, s.english) ? -1 : idx))
+      .filter(idx => idx >= 0));
+  };
+
+  const toggleIndex = (idx: number) => {
+    setSelectedIndices(prev => prev.includes(idx) ? prev.filter(i => i !== idx) : [...prev, idx]);
+  };
+
+  const confirmBulkSave = (entry: HistoryEntry) => {
+    const segments = entry.result.segments.filter((_, idx) => selectedIndices.includes(idx));
+    onBulkSave(segments, saveFolderId);
+    setSavingEntryId(null);
+  };
+
+  const renderEntry = (entry: HistoryEntry) => {
+    const { result } = entry;
+    const isSaving = savingEntryId === entry.id;
+
+    return (
+      <div key={entry.id} className="bg-white rounded-xl p-3 border border-gray-100 shadow-sm">
+        <div className="flex items-start justify-between gap-2">
+          <button onClick={() => onOpen(entry)} className="text-left flex-1 min-w-0" title="Open this result">
+            <div className="text-sm font-bold text-thai-700 font-thai truncate">{result.originalText}</div>
+            <div className="text-xs text-gray-600 truncate">{result.translatedText}</div>
+            <div className="text-[10px] text-gray-300 mt-0.5">
+              {new Date(entry.timestamp).toLocaleString()} · {result.segments.length} words
+            </div>
+          </button>
+
+          <div className="flex items-center gap-0.5 flex-none">
+            <button
+              onClick={() => onTogglePin(entry.id)}
+              className={`p-1.5 rounded-lg transition-colors ${entry.pinned ? 'text-amber-500 bg-amber-50' : 'text-gray-300 hover:text-amber-500'}`}
+              title={entry.pinned ? 'Unpin' : 'Pin to favourites'}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+              </svg>
+            </button>
+            {result.segments.length > 0 && (
+              <button
+                onClick={() => startBulkSave(entry)}
+                className={`p-1.5 rounded-lg transition-colors ${isSaving ? 'text-thai-600 bg-thai-50' : 'text-gray-300 hover:text-thai-600'}`}
+                title="Save words to a folder"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                </svg>
+              </button>
+            )}
+            <button
+              onClick={() => onDelete(entry.id)}
+              className="p-1.5 rounded-lg text-gray-300 hover:text-red-500 transition-colors"
+              title="Remove from history"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Bulk Save */}
+        {isSaving && (
+          <div className="mt-2 pt-2 border-t border-dashed border-gray-200 space-y-2 animate-fade-in">
+            <div className="flex flex-wrap gap-1">
+              {result.segments.map((segment, idx) => {
+                const saved = isSaved(segment.thai, segment.english);
+                const selected = selectedIndices.includes(idx);
+                return (
+                  <button
+                    key={idx}
+                    onClick={() => toggleIndex(idx)}
+                    disabled={saved}
+                    className={`text-xs font-thai px-2 py-1 rounded-lg border transition-colors ${
+                      saved
+                        ? 'bg-green-50 border-green-100 text-green-600 cursor-default'
+                        : selected
+                          ? 'bg-thai-50 border-thai-500 text-thai-700'
+                          : 'bg-white border-gray-200 text-gray-500'
+                    }`}
+                    title={saved ? 'Already saved' : segment.english}
+                  >
+                    {segment.thai}
+                  </button>
+                );
+              })}
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                value={saveFolderId}
+                onChange={(e) => setSaveFolderId(e.target.value)}
+                className="flex-1 text-xs border border-gray-200 rounded-lg px-2 py-1.5 bg-gray-50 outline-none focus:border-thai-500"
+              >
+                <option value="">General</option>
+                {folders.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+              </select>
+              <button
+                onClick={() => confirmBulkSave(entry)}
+                disabled={selectedIndices.length === 0}
+                className="bg-thai-600 text-white text-xs font-bold px-3 py-1.5 rounded-lg hover:bg-thai-700 transition-colors disabled:opacity-50"
+              >
+                Save {selectedIndices.length}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-2xl p-3 border border-gray-100 mb-4 animate-fade-in space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider ml-1">History</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1" title="Close history">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+          </svg>
+        </button>
+      </div>
+
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search history..."
+        className="w-full px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm font-thai outline-none focus:border-thai-500"
+      />
+
+      <div className="max-h-[50vh] overflow-y-auto space-y-2">
+        {filtered.length === 0 && (
+          <div className="text-center py-6 text-xs text-gray-400">
+            {entries.length === 0 ? 'Your lookups will appear here.' : 'No matching lookups.'}
+          </div>
+        )}
+        {pinned.length > 0 && (
+          <>
+            <div className="text-[9px] font-bold text-amber-500 uppercase tracking-wider ml-1">Pinned</div>
+            {pinned.map(renderEntry)}
+          </>
+        )}
+        {recent.length > 0 && pinned.length > 0 && (
+          <div className="text-[9px] font-bold text-gray-300 uppercase tracking-wider ml-1">Recent</div>
+        )}
+        {recent.map(renderEntry)}
+      </div>
+    </div>
+  );
+};
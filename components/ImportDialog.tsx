@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { ImportMatch, ImportPlan, ImportResolution, ImportSummary, VocabCard } from '../types';
+import { cardMeanings } from '../services/senses';
+
+interface ImportDialogProps {
+  plan: ImportPlan;
+  onConfirm: (resolutions: ImportResolution[]) => ImportSummary;
+  onClose: () => void;
+}
+
+const RESOLUTIONS: { id: ImportResolution; label: string; description: string }[] = [
+  { id: 'keep', label: 'Keep', description: 'Keep the saved card and ignore the imported one' },
+  { id: 'overwrite', label: 'Overwrite', description: 'Replace the saved card with the imported one' },
+  { id: 'merge', label: 'Merge', description: 'Keep the saved card and add the imported meanings and examples' },
+];
+
+const CardSide: React.FC<{ label: string; card: VocabCard }> = ({ label, card }) => (
+  <div className="flex-1 min-w-0 bg-gray-50 rounded-lg p-2 text-xs space-y-0.5">
+    <div className="text-[9px] font-bold text-gray-400 uppercase">{label}</div>
+    <div className="text-gray-800 font-medium break-words">{cardMeanings(card).join('; ')}</div>
+    <div className="text-thai-500">{card.transliteration}</div>
+    {(card.partOfSpeech || card.classifier) && (
+      <div className="text-gray-400">
+        {card.partOfSpeech}
+        {card.classifier && <span className="font-thai"> · {card.classifier}</span>}
+      </div>
+    )}
+    <div className="text-gray-400">
+      {card.examples?.length || 0} examples{card.schedule ? ` · reviewed ${card.schedule.reps}×` : ''}
+    </div>
+  </div>
+);
+
+// Preview of a backup import: new, identical and conflicting cards, with a choice
+// per conflict. After importing it shows what was done.
+export const ImportDialog: React.FC<ImportDialogProps> = ({ plan, onConfirm, onClose }) => {
+  const [resolutions, setResolutions] = useState<ImportResolution[]>(() => plan.conflicts.map(() => 'merge'));
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const setResolution = (idx: number, resolution: ImportResolution) =>
+    setResolutions(prev => prev.map((r, i) => i === idx ? resolution : r));
+
+  const hasChanges = plan.newCards.length > 0 || plan.conflicts.length > 0 || plan.newFolders.length > 0;
+
+  const renderWords = (cards: VocabCard[]) => (
+    <div className="flex flex-wrap gap-1">
+      {cards.slice(0, 30).map(card => (
+        <span key={card.id} className="text-xs font-thai bg-gray-100 text-gray-700 px-2 py-0.5 rounded-full">{card.thai}</span>
+      ))}
+      {cards.length > 30 && <span className="text-xs text-gray-400 px-1">+{cards.length - 30} more</span>}
+    </div>
+  );
+
+  const renderConflict = ({ imported, existing }: ImportMatch, idx: number) => (
+    <div key={existing.id} className="border border-gray-100 rounded-xl p-2 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-thai font-bold text-thai-700">{existing.thai}</span>
+        <div className="flex gap-1 bg-gray-100 p-0.5 rounded-lg">
+          {RESOLUTIONS.map(resolution => (
+            <button
+              key={resolution.id}
+              onClick={() => setResolution(idx, resolution.id)}
+              className={`px-2 py-1 rounded-md text-[10px] font-bold transition-colors ${resolutions[idx] === resolution.id ? 'bg-white text-thai-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              title={resolution.description}
+            >
+              {resolution.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <CardSide label="Saved" card={existing} />
+        <CardSide label="Imported" card={imported} />
+      </div>
+    </div>
+  );
+
+  const summaryRows: [string, number][] = summary ? [
+    ['New cards added', summary.added],
+    ['Already saved, skipped', summary.identical],
+    ['Conflicts merged', summary.merged],
+    ['Conflicts overwritten', summary.overwritten],
+    ['Conflicts kept as saved', summary.kept],
+    ['New folders', summary.folders],
+    ['Unreadable entries', summary.invalid],
+  ] : [];
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 py-3 border-b border-gray-100">
+          <h2 className="text-lg font-bold text-gray-800">{summary ? 'Import complete' : 'Import backup'}</h2>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+          {summary ? (
+            <div className="space-y-1.5">
+              {summaryRows.filter(([, count]) => count > 0).map(([label, count]) => (
+                <div key={label} className="flex justify-between text-sm">
+                  <span className="text-gray-600">{label}</span>
+                  <span className="font-bold text-gray-800">{count}</span>
+                </div>
+              ))}
+              {summaryRows.every(([, count]) => count === 0) && (
+                <p className="text-sm text-gray-500">The backup was empty.</p>
+              )}
+            </div>
+          ) : (
+            <>
+              {plan.newCards.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">New ({plan.newCards.length})</h3>
+                  {renderWords(plan.newCards)}
+                </div>
+              )}
+
+              {plan.conflicts.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Conflicts ({plan.conflicts.length})</h3>
+                    <div className="flex gap-1">
+                      {RESOLUTIONS.map(resolution => (
+                        <button
+                          key={resolution.id}
+                          onClick={() => setResolutions(plan.conflicts.map(() => resolution.id))}
+                          className="text-[10px] font-bold text-gray-500 bg-gray-100 hover:bg-thai-50 hover:text-thai-600 px-2 py-1 rounded-full transition-colors"
+                        >
+                          All: {resolution.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {plan.conflicts.map(renderConflict)}
+                </div>
+              )}
+
+              {plan.identical.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Already saved ({plan.identical.length})</h3>
+                  {renderWords(plan.identical.map(m => m.existing))}
+                </div>
+              )}
+
+              {plan.newFolders.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  New folders: {plan.newFolders.map(f => f.name).join(', ')}
+                </p>
+              )}
+              {plan.invalid > 0 && (
+                <p className="text-xs text-amber-700">{plan.invalid} entries are not flashcards and will be skipped.</p>
+              )}
+              {!hasChanges && (
+                <p className="text-sm text-gray-500">
+                  {plan.identical.length > 0 ? 'Nothing new to import; every card in this backup is already saved.' : 'No flashcards found in this backup.'}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-2 px-5 py-3 border-t border-gray-100">
+          {summary ? (
+            <button
+              onClick={onClose}
+              className="flex-1 bg-thai-600 text-white px-4 py-2.5 rounded-xl font-bold hover:bg-thai-700 transition-colors text-sm"
+            >
+              Done
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={onClose}
+                className="flex-1 px-4 py-2.5 text-gray-600 font-medium bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => setSummary(onConfirm(resolutions))}
+                disabled={!hasChanges}
+                className="flex-1 bg-thai-600 text-white px-4 py-2.5 rounded-xl font-bold hover:bg-thai-700 transition-colors text-sm disabled:opacity-50"
+              >
+                Import
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
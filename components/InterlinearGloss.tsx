@@ -0,0 +1,102 @@
+import React from 'react';
+import { RomanizationScheme, Segment, SentenceGloss } from '../types';
+import { romanizeOr } from '../services/romanization';
+import { ERROR_MESSAGES } from '../services/translationErrors';
+import { AudioPlayer } from './AudioPlayer';
+import { ToneText } from './ToneText';
+
+interface InterlinearGlossProps {
+  sentences: SentenceGloss[];
+  isLoading: boolean;
+  romanization: RomanizationScheme;
+  toneColors: boolean;
+  isSaved: (thai: string, english: string) => boolean;
+  onSaveSegment: (segment: Segment) => void;
+  onRetry: (index: number) => void;
+  itemLabel?: string; // "Sentence", or "Line" for text read from a photo
+}
+
+// Paragraph-mode result: each sentence as columns of Thai word, romanization and
+// English gloss, with the full sentence translation underneath
+export const InterlinearGloss: React.FC<InterlinearGlossProps> = ({ sentences, isLoading, romanization, toneColors, isSaved, onSaveSegment, onRetry, itemLabel = 'Sentence' }) => (
+  <div className="space-y-3 animate-fade-in pt-1 pb-20">
+    {sentences.map((sentence, idx) => {
+      const { result } = sentence;
+      const isThaiInput = /[\u0E00-\u0E7F]/.test(sentence.text);
+      const englishLine = result ? (isThaiInput ? result.translatedText : result.originalText) : '';
+      const thaiLine = result ? (isThaiInput ? result.originalText : result.translatedText) : sentence.text;
+
+      return (
+        <div key={idx} className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 relative overflow-hidden">
+          <div className="absolute top-0 left-0 w-1.5 h-full bg-thai-500"></div>
+
+          <div className="flex items-center justify-between mb-2 pl-3">
+            <span className="text-[10px] font-bold text-gray-300 uppercase tracking-wider">{itemLabel} {idx + 1}</span>
+            {result && <AudioPlayer text={thaiLine} size="sm" />}
+          </div>
+
+          {result ? (
+            <div className="pl-3">
+              {result.segments.length > 0 ? (
+                <div className="flex flex-wrap gap-x-1 gap-y-2">
+                  {result.segments.map((segment, sIdx) => {
+                    const saved = isSaved(segment.thai, segment.english);
+                    return (
+                      <button
+                        key={sIdx}
+                        onClick={() => onSaveSegment(segment)}
+                        disabled={saved}
+                        className={`flex flex-col items-center text-center px-1.5 py-1 rounded-lg border transition-colors ${
+                          saved
+                            ? 'border-green-100 bg-green-50 cursor-default'
+                            : 'border-transparent hover:border-thai-100 hover:bg-thai-50'
+                        }`}
+                        title={saved ? 'Saved' : `Save "${segment.thai}"`}
+                      >
+                        <span className="text-base font-bold text-thai-700 font-thai leading-tight">
+                          <ToneText text={segment.thai} colored={toneColors} />
+                        </span>
+                        <span className="text-[10px] italic text-gray-400 leading-tight">
+                          {romanizeOr(segment.thai, segment.transliteration, romanization)}
+                        </span>
+                        <span className={`text-[10px] leading-tight max-w-[7rem] truncate ${saved ? 'text-green-700' : 'text-gray-700'}`}>
+                          {segment.english}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              ) : (
+                <p className="text-lg font-bold text-thai-700 font-thai"><ToneText text={thaiLine} colored={toneColors} /></p>
+              )}
+              <p className="text-sm font-medium text-gray-900 mt-2 leading-snug">{englishLine}</p>
+            </div>
+          ) : (
+            <div className="pl-3">
+              <p className="text-sm text-gray-500 font-thai mb-1">{sentence.text}</p>
+              {sentence.error || !isLoading ? (
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-red-600">{sentence.error ? ERROR_MESSAGES[sentence.error.kind] : 'Not translated.'}</span>
+                  {/* Retrying restarts the run, so wait until the rest of the paragraph is done */}
+                  {!isLoading && (
+                    <button
+                      onClick={() => onRetry(idx)}
+                      className="text-[10px] font-bold bg-white text-red-600 border border-red-200 hover:bg-red-100 px-2 py-1 rounded-lg transition-colors"
+                    >
+                      Retry
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <div className="flex gap-2 animate-pulse">
+                  <div className="h-2.5 bg-gray-200 rounded w-1/4"></div>
+                  <div className="h-2.5 bg-gray-200 rounded w-1/3"></div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { OcrLine, SentenceGloss } from '../types';
+
+interface PhotoOverlayProps {
+  url: string;
+  lines: OcrLine[];
+  sentences: SentenceGloss[]; // Translations, same order as `lines`
+  isScanning: boolean;
+}
+
+// The photo with a numbered box over each Thai line found in it. The numbers match
+// the line cards below; tapping a box shows its translation under the photo.
+export const PhotoOverlay: React.FC<PhotoOverlayProps> = ({ url, lines, sentences, isScanning }) => {
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const translationOf = (idx: number) => {
+    const sentence = sentences[idx];
+    if (sentence?.error) return 'Translation failed';
+    return sentence?.result?.translatedText || 'Translating...';
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-3 shadow-sm border border-gray-100 animate-fade-in">
+      <div className="relative">
+        <img src={url} alt="Photo to translate" className={`w-full rounded-xl ${isScanning ? 'opacity-60' : ''}`} />
+        {isScanning && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <span className="text-xs font-bold text-white bg-black/60 px-3 py-1.5 rounded-full animate-pulse">Reading Thai text...</span>
+          </div>
+        )}
+        {lines.map((line, idx) => line.region && (
+          <button
+            key={idx}
+            onClick={() => setSelected(selected === idx ? null : idx)}
+            style={{
+              left: `${line.region.x * 100}%`,
+              top: `${line.region.y * 100}%`,
+              width: `${line.region.width * 100}%`,
+              height: `${line.region.height * 100}%`,
+            }}
+            className={`absolute rounded-md border-2 transition-colors ${
+              selected === idx ? 'border-thai-500 bg-thai-500/20' : 'border-yellow-300 bg-yellow-200/10 hover:bg-yellow-200/30'
+            }`}
+            title={translationOf(idx)}
+          >
+            <span className="absolute -top-2.5 -left-2.5 w-5 h-5 rounded-full bg-thai-600 text-white text-[10px] font-bold flex items-center justify-center shadow">
+              {idx + 1}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {selected !== null && lines[selected] && (
+        <div className="mt-2 flex items-start gap-2 bg-thai-50 rounded-lg p-2 animate-fade-in">
+          <span className="flex-none w-5 h-5 rounded-full bg-thai-600 text-white text-[10px] font-bold flex items-center justify-center">{selected + 1}</span>
+          <div className="min-w-0">
+            <p className="font-thai text-sm font-bold text-thai-700">{lines[selected].text}</p>
+            <p className="text-xs text-gray-700">{translationOf(selected)}</p>
+          </div>
+        </div>
+      )}
+
+      {!isScanning && lines.length === 0 && (
+        <p className="mt-2 text-xs text-gray-400 text-center">No Thai text found in this photo.</p>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,25 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { VocabCard, QuizQuestion, VocabFolder } from '../types';
 import { AudioPlayer } from './AudioPlayer';
+import { ToneText } from './ToneText';
+import { COMMON_CLASSIFIERS } from '../services/classifiers';
+import { cardMeanings } from '../services/senses';
+import { dueCards, reviewCard } from '../services/srs';
 
 interface QuizTabProps {
   vocabulary: VocabCard[];
   folders: VocabFolder[];
+  onUpdateCard: (id: string, update: (card: VocabCard) => VocabCard) => void;
+  toneColors: boolean;
 }
 
-export const QuizTab: React.FC<QuizTabProps> = ({ vocabulary, folders }) => {
+const PRACTICE_LENGTH = 10;
+const MAX_REVIEW_LENGTH = 20; // Due cards asked per review session
+
+export const QuizTab: React.FC<QuizTabProps> = ({ vocabulary, folders, onUpdateCard, toneColors }) => {
   const [step, setStep] = useState<'SETUP' | 'PLAYING' | 'SUMMARY'>('SETUP');
+  const [mode, setMode] = useState<'PRACTICE' | 'REVIEW'>('PRACTICE'); // Random cards, or only the ones due
+  const [sessionLength, setSessionLength] = useState(PRACTICE_LENGTH);
   const [selectedFolderIds, setSelectedFolderIds] = useState<string[]>([]); // Empty means NONE selected initially, logic below handles "Select All"
   const [currentQuestion, setCurrentQuestion] = useState<QuizQuestion | null>(null);
   const [score, setScore] = useState(0);
@@ -18,6 +29,8 @@ export const QuizTab: React.FC<QuizTabProps> = ({ vocabulary, folders }) => {
 
   // Track used questions to prevent repeats within a session
   const usedCardIdsRef = useRef<Set<string>>(new Set());
+  // Review mode asks these in order; a wrong answer puts the card back at the end
+  const reviewQueueRef = useRef<string[]>([]);
 
   // Sound Effects Helper
   const playSound = (type: 'correct' | 'wrong' | 'complete') => {
@@ -51,26 +64,59 @@ export const QuizTab: React.FC<QuizTabProps> = ({ vocabulary, folders }) => {
     const activeVocab = getActiveVocabulary();
     if (activeVocab.length < 4) return null;
 
-    // 1. Candidate pool for the CORRECT ANSWER (prioritize unused)
-    let candidatePool = activeVocab.filter(c => !usedCardIdsRef.current.has(c.id));
-    
-    // If we've exhausted unused cards, fallback to full list (allow repeats if necessary)
-    if (candidatePool.length === 0) {
-        candidatePool = activeVocab;
-    }
+    let correctCard: VocabCard;
+    if (mode === 'REVIEW') {
+      // The session ends when the queue runs out; cards deleted meanwhile are skipped
+      let next: VocabCard | undefined;
+      while (!next && reviewQueueRef.current.length > 0) {
+        const id = reviewQueueRef.current.shift();
+        next = activeVocab.find(c => c.id === id);
+      }
+      if (!next) return null;
+      correctCard = next;
+    } else {
+      // 1. Candidate pool for the CORRECT ANSWER (prioritize unused)
+      let candidatePool = activeVocab.filter(c => !usedCardIdsRef.current.has(c.id));
+
+      // If we've exhausted unused cards, fallback to full list (allow repeats if necessary)
+      if (candidatePool.length === 0) {
+          candidatePool = activeVocab;
+      }
 
-    // Pick a random correct card from the pool
-    const correctIndex = Math.floor(Math.random() * candidatePool.length);
-    const correctCard = candidatePool[correctIndex];
+      // Pick a random correct card from the pool
+      const correctIndex = Math.floor(Math.random() * candidatePool.length);
+      correctCard = candidatePool[correctIndex];
+    }
 
     // Mark as used for this session
     usedCardIdsRef.current.add(correctCard.id);
 
+    // Nouns with a classifier sometimes get a "pick the right classifier" question
+    if (correctCard.classifier && Math.random() < 0.4) {
+      const correctClassifier = correctCard.classifier;
+      // Prefer classifiers from the deck itself, topped up with common ones
+      const deckClassifiers = activeVocab.map(c => c.classifier).filter((c): c is string => !!c);
+      const pool = [...new Set([...deckClassifiers, ...COMMON_CLASSIFIERS])]
+        .filter(c => c !== correctClassifier)
+        .sort(() => Math.random() - 0.5);
+
+      return {
+        question: correctCard.thai,
+        correctAnswer: correctClassifier,
+        options: [correctClassifier, ...pool.slice(0, 3)].sort(() => Math.random() - 0.5),
+        type: 'CLASSIFIER' as const,
+        card: correctCard
+      };
+    }
+
     // Determine direction: Thai -> Eng or Eng -> Thai
     const type: 'THAI_TO_ENG' | 'ENG_TO_THAI' = Math.random() > 0.5 ? 'THAI_TO_ENG' : 'ENG_TO_THAI';
 
-    const questionText = type === 'THAI_TO_ENG' ? correctCard.thai : correctCard.english;
-    const correctAnswer = type === 'THAI_TO_ENG' ? correctCard.english : correctCard.thai;
+    // Cards with several picked senses are tested on one of them at a time
+    const meanings = cardMeanings(correctCard);
+    const meaning = meanings[Math.floor(Math.random() * meanings.length)];
+    const questionText = type === 'THAI_TO_ENG' ? correctCard.thai : meaning;
+    const correctAnswer = type === 'THAI_TO_ENG' ? meaning : correctCard.thai;
 
     // Generate 3 distractors
     const options = new Set<string>();
@@ -82,8 +128,8 @@ export const QuizTab: React.FC<QuizTabProps> = ({ vocabulary, folders }) => {
 
     for (const dCard of shuffledDistractors) {
       if (options.size >= 4) break;
-      const val = type === 'THAI_TO_ENG' ? dCard.english : dCard.thai;
-      if (val && val !== correctAnswer && val.trim() !== "") {
+      const val = type === 'THAI_TO_ENG' ? cardMeanings(dCard)[0] : dCard.thai;
+      if (val && val !== correctAnswer && !meanings.includes(val) && val.trim() !== "") {
         options.add(val);
       }
     }
@@ -95,10 +141,13 @@ export const QuizTab: React.FC<QuizTabProps> = ({ vocabulary, folders }) => {
       type,
       card: correctCard // pass full card for audio/context
     };
-  }, [getActiveVocabulary]);
+  }, [getActiveVocabulary, mode]);
 
   const startQuiz = () => {
     usedCardIdsRef.current.clear(); // Reset history for new game
+    // Due cards, most overdue first
+    reviewQueueRef.current = dueCards(getActiveVocabulary()).slice(0, MAX_REVIEW_LENGTH).map(c => c.id);
+    setSessionLength(mode === 'REVIEW' ? reviewQueueRef.current.length : PRACTICE_LENGTH);
     setScore(0);
     setQuestionCount(0);
     const q = generateQuestion();
@@ -122,10 +171,20 @@ export const QuizTab: React.FC<QuizTabProps> = ({ vocabulary, folders }) => {
       playSound('wrong');
     }
 
+    // Every answer counts as a review: a right pick is "good", a wrong one "again"
+    const card = currentQuestion?.card;
+    if (card) onUpdateCard(card.id, c => reviewCard(c, isCorrect ? 'good' : 'again'));
+
+    // In review mode a missed card comes back at the end of the session, as in flashcard study
+    const requeue = mode === 'REVIEW' && !isCorrect && !!card;
+    if (requeue) reviewQueueRef.current.push(card.id);
+    const length = sessionLength + (requeue ? 1 : 0);
+    setSessionLength(length);
+
     // Next question delay
     setTimeout(() => {
       setQuestionCount(c => c + 1);
-      if (questionCount >= 9) { // End after 10 questions
+      if (questionCount >= length - 1) {
         setStep('SUMMARY');
         setFeedback(null);
         setSelectedOption(null);
@@ -165,7 +224,9 @@ export const QuizTab: React.FC<QuizTabProps> = ({ vocabulary, folders }) => {
   // SETUP SCREEN
   if (step === 'SETUP') {
     const activeCount = getActiveVocabulary().length;
-    const canStart = activeCount >= 4;
+    const dueCount = dueCards(getActiveVocabulary()).length;
+    const canStart = activeCount >= 4 && (mode === 'PRACTICE' || dueCount > 0);
+    const folderDue = (folderId?: string) => dueCards(vocabulary.filter(c => c.folderId === folderId)).length;
 
     return (
       <div className="max-w-2xl mx-auto flex flex-col h-[calc(100vh-160px)] pb-2 animate-fade-in">
@@ -184,6 +245,18 @@ export const QuizTab: React.FC<QuizTabProps> = ({ vocabulary, folders }) => {
             </p>
           </div>
 
+          <div className="flex gap-1 bg-gray-100 p-1 rounded-xl mb-2 flex-none">
+            {([['PRACTICE', 'Practice'], ['REVIEW', `Review due (${dueCount})`]] as const).map(([id, label]) => (
+              <button
+                key={id}
+                onClick={() => setMode(id)}
+                className={`flex-1 py-1.5 rounded-lg text-xs font-bold transition-colors ${mode === id ? 'bg-white text-thai-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
           <div className="flex-1 min-h-0 flex flex-col">
             <div className="bg-gray-50 rounded-xl p-2 border border-gray-200 flex-1 overflow-y-auto">
                 <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-2 sticky top-0 bg-gray-50 pb-1 z-10">Select Decks</h3>
@@ -212,7 +285,7 @@ export const QuizTab: React.FC<QuizTabProps> = ({ vocabulary, folders }) => {
                     />
                     <div className="flex-1">
                         <div className="font-medium text-xs text-gray-800">General</div>
-                        <div className="text-[10px] text-gray-400">{vocabulary.filter(c => c.folderId === undefined).length} words</div>
+                        <div className="text-[10px] text-gray-400">{vocabulary.filter(c => c.folderId === undefined).length} words · {folderDue(undefined)} due</div>
                     </div>
                 </label>
 
@@ -227,7 +300,7 @@ export const QuizTab: React.FC<QuizTabProps> = ({ vocabulary, folders }) => {
                         />
                         <div className="flex-1">
                         <div className="font-medium text-xs text-gray-800">{f.name}</div>
-                        <div className="text-[10px] text-gray-400">{vocabulary.filter(c => c.folderId === f.id).length} words</div>
+                        <div className="text-[10px] text-gray-400">{vocabulary.filter(c => c.folderId === f.id).length} words · {folderDue(f.id)} due</div>
                         </div>
                     </label>
                 ))}
@@ -241,7 +314,9 @@ export const QuizTab: React.FC<QuizTabProps> = ({ vocabulary, folders }) => {
                disabled={!canStart}
                className="w-full bg-thai-600 text-white py-3 rounded-xl font-bold text-sm hover:bg-thai-700 transition-all shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed transform active:scale-95"
              >
-               Start Quiz ({activeCount} words)
+               {mode === 'REVIEW'
+                 ? `Start Review (${Math.min(dueCount, MAX_REVIEW_LENGTH)} due)`
+                 : `Start Quiz (${activeCount} words)`}
              </button>
           </div>
         </div>
@@ -251,7 +326,7 @@ export const QuizTab: React.FC<QuizTabProps> = ({ vocabulary, folders }) => {
 
   // SUMMARY SCREEN
   if (step === 'SUMMARY') {
-     const percentage = Math.round((score / 10) * 100);
+     const percentage = Math.round((score / sessionLength) * 100);
      return (
       <div className="max-w-2xl mx-auto py-10 animate-fade-in">
          <div className="bg-white rounded-3xl p-8 shadow-xl text-center border border-gray-100 relative overflow-hidden">
@@ -273,7 +348,7 @@ export const QuizTab: React.FC<QuizTabProps> = ({ vocabulary, folders }) => {
                </div>
                <div className="w-px h-12 bg-gray-200"></div>
                <div className="text-center">
-                  <div className="text-3xl font-bold text-gray-800">10</div>
+                  <div className="text-3xl font-bold text-gray-800">{sessionLength}</div>
                   <div className="text-xs text-gray-400 uppercase">Total</div>
                </div>
             </div>
@@ -294,7 +369,7 @@ export const QuizTab: React.FC<QuizTabProps> = ({ vocabulary, folders }) => {
 
   // Helper to determine grid layout based on option length
   // If options are Thai (short), use 2 cols to save space. If English (often defs), use 1 col.
-  const isThaiOptions = currentQuestion.type === 'ENG_TO_THAI';
+  const isThaiOptions = currentQuestion.type !== 'THAI_TO_ENG';
 
   return (
     // Full height container minus bottom nav approx height
@@ -324,13 +399,13 @@ export const QuizTab: React.FC<QuizTabProps> = ({ vocabulary, folders }) => {
        {/* Top Bar: Progress & Score */}
        <div className="flex-none mb-2">
            <div className="flex items-center justify-between text-xs font-bold text-gray-400 mb-1.5 px-1 uppercase tracking-wide">
-              <span>Question {questionCount + 1} / 10</span>
+              <span>Question {questionCount + 1} / {sessionLength}</span>
               <span className="bg-thai-50 text-thai-600 px-2 py-0.5 rounded-full">Score: {score}</span>
            </div>
            <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
               <div 
                 className="h-full bg-thai-500 rounded-full transition-all duration-500 ease-out"
-                style={{ width: `${((questionCount) / 10) * 100}%` }}
+                style={{ width: `${((questionCount) / sessionLength) * 100}%` }}
               ></div>
            </div>
        </div>
@@ -343,12 +418,20 @@ export const QuizTab: React.FC<QuizTabProps> = ({ vocabulary, folders }) => {
            <div className="absolute top-0 left-0 w-full h-1.5 bg-thai-500"></div>
            
            <h3 className="text-[10px] font-bold text-gray-300 uppercase tracking-widest mb-3">
-             {currentQuestion.type === 'THAI_TO_ENG' ? 'Translate to English' : 'Translate to Thai'}
+             {currentQuestion.type === 'CLASSIFIER' ? 'Pick the classifier' : currentQuestion.type === 'THAI_TO_ENG' ? 'Translate to English' : 'Translate to Thai'}
            </h3>
            
            <div className="text-4xl font-bold text-gray-800 font-thai mb-2 leading-tight break-words max-w-full">
-              {currentQuestion.question}
+              {currentQuestion.type !== 'ENG_TO_THAI'
+                ? <ToneText text={currentQuestion.question} colored={toneColors} />
+                : currentQuestion.question}
            </div>
+
+           {currentQuestion.type === 'CLASSIFIER' && currentQuestion.card && (
+              <p className="text-sm text-gray-500 font-thai">
+                {cardMeanings(currentQuestion.card).join('; ')} · {currentQuestion.card.thai} 2 <span className="text-gray-300">___</span>
+              </p>
+           )}
            
            {currentQuestion.card && (
               <div className="mt-2">
@@ -393,7 +476,10 @@ export const QuizTab: React.FC<QuizTabProps> = ({ vocabulary, folders }) => {
                         : 'border-gray-200'}
                  `}></div>
 
-                 <span className={isThaiOptions ? '' : 'ml-6'}>{option}</span>
+                 <span className={isThaiOptions ? '' : 'ml-6'}>
+                   {/* Tone colours would clash with the answer feedback colours */}
+                   {isThaiOptions && feedback === null ? <ToneText text={option} colored={toneColors} /> : option}
+                 </span>
                </button>
             );
           })}
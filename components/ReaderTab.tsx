@@ -0,0 +1,284 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { RomanizationScheme, VocabCard, VocabFolder } from '../types';
+import { quickTranslate } from '../services/geminiService';
+import { isAbortError } from '../services/abortable';
+import { ERROR_MESSAGES, TranslationError, toTranslationError } from '../services/translationErrors';
+import { lookupWord } from '../services/thaiLexicon';
+import { cardTransliteration, romanize } from '../services/romanization';
+import { countPhrase } from '../services/classifiers';
+import { loadReaderText, readerKey, readingCoverage, saveReaderText, tokenizeForReading } from '../services/readerText';
+import { AudioPlayer } from './AudioPlayer';
+import { ToneText } from './ToneText';
+
+interface ReaderTabProps {
+  onAddToVocab: (card: VocabCard) => void;
+  vocabulary: VocabCard[];
+  folders: VocabFolder[];
+  romanization: RomanizationScheme;
+  toneColors: boolean;
+}
+
+// Meaning of a tapped word: from the bundled lexicon, or fetched on demand
+type WordLookup =
+  | { status: 'loading' }
+  | { status: 'done'; english: string; partOfSpeech: string; classifier?: string }
+  | { status: 'error'; error: TranslationError };
+
+export const ReaderTab: React.FC<ReaderTabProps> = ({ onAddToVocab, vocabulary, folders, romanization, toneColors }) => {
+  const [text, setText] = useState(() => loadReaderText());
+  const [draft, setDraft] = useState(text);
+  const [isEditing, setIsEditing] = useState(!text);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [lookups, setLookups] = useState<Record<string, WordLookup>>({});
+  const [targetFolderId, setTargetFolderId] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null); // Cancels the in-flight word lookup
+
+  // Stop the lookup when the tab unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Segmented once per text, not on every render
+  const tokens = useMemo(() => tokenizeForReading(text), [text]);
+
+  const vocabByThai = useMemo(() => {
+    const map = new Map<string, VocabCard>();
+    vocabulary.forEach(card => map.set(readerKey(card.thai), card));
+    return map;
+  }, [vocabulary]);
+
+  const coverage = useMemo(() => readingCoverage(tokens, new Set(vocabByThai.keys())), [tokens, vocabByThai]);
+  const knownPercent = coverage.total ? Math.round((coverage.known / coverage.total) * 100) : 0;
+
+  const setLookup = (key: string, lookup: WordLookup) => {
+    setLookups(prev => ({ ...prev, [key]: lookup }));
+  };
+
+  const fetchMeaning = async (key: string) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLookup(key, { status: 'loading' });
+    try {
+      const basic = await quickTranslate(key, controller.signal);
+      setLookup(key, { status: 'done', english: basic.translatedText, partOfSpeech: '' });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.warn("Reader lookup failed", error);
+      setLookup(key, { status: 'error', error: toTranslationError(error) });
+    }
+  };
+
+  const handleSelectWord = (index: number) => {
+    if (selectedIndex === index) {
+      setSelectedIndex(null);
+      return;
+    }
+    setSelectedIndex(index);
+
+    const key = readerKey(tokens[index].text);
+    if (vocabByThai.has(key) || lookups[key]?.status === 'done') return;
+    const entry = lookupWord(key);
+    if (entry) {
+      setLookup(key, { status: 'done', english: entry.english, partOfSpeech: entry.partOfSpeech, classifier: entry.classifier });
+    } else {
+      fetchMeaning(key);
+    }
+  };
+
+  const handleStartReading = () => {
+    const trimmed = draft.trim();
+    if (!trimmed) return;
+    setText(trimmed);
+    saveReaderText(trimmed);
+    setSelectedIndex(null);
+    setIsEditing(false);
+  };
+
+  const handleOpenFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow opening the same file again
+    if (!file) return;
+    try {
+      setDraft(await file.text());
+    } catch (error) {
+      console.error("Error reading text file", error);
+      alert("Couldn't read that file.");
+    }
+  };
+
+  const selectedKey = selectedIndex !== null ? readerKey(tokens[selectedIndex].text) : '';
+  const savedCard = selectedKey ? vocabByThai.get(selectedKey) : undefined;
+  const lookup = selectedKey ? lookups[selectedKey] : undefined;
+
+  const handleSave = () => {
+    if (!selectedKey || savedCard || lookup?.status !== 'done') return;
+    onAddToVocab({
+      id: Date.now().toString(),
+      thai: selectedKey,
+      transliteration: romanize(selectedKey, romanization),
+      english: lookup.english,
+      partOfSpeech: lookup.partOfSpeech || undefined,
+      classifier: lookup.classifier,
+      dateAdded: Date.now(),
+      folderId: targetFolderId || undefined,
+    });
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto pb-40">
+      <div className="bg-white rounded-3xl shadow-sm border border-gray-100 p-4 mb-4">
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Reader</label>
+          {!isEditing && (
+            <button
+              onClick={() => { setDraft(text); setIsEditing(true); setSelectedIndex(null); }}
+              className="text-[10px] font-bold text-gray-400 hover:text-thai-600 hover:bg-thai-50 px-2 py-1 rounded-full transition-colors"
+            >
+              Change text
+            </button>
+          )}
+        </div>
+
+        {isEditing ? (
+          <>
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="Paste a Thai article, story or message"
+              rows={8}
+              className="w-full font-thai text-base text-gray-800 placeholder-gray-300 border border-gray-100 focus:border-thai-500 rounded-xl p-2 outline-none transition-all resize-y"
+            />
+            <div className="flex gap-2 mt-2">
+              <button
+                onClick={handleStartReading}
+                disabled={!draft.trim()}
+                className="flex-1 bg-thai-600 text-white rounded-2xl font-bold hover:bg-thai-700 transition-all py-2 text-xs disabled:opacity-50"
+              >
+                Read
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex-none bg-gray-100 text-gray-600 rounded-2xl font-bold hover:bg-gray-200 transition-all px-4 py-2 text-xs"
+                title="Open a .txt file"
+              >
+                Open file
+              </button>
+              {text && (
+                <button
+                  onClick={() => setIsEditing(false)}
+                  className="flex-none text-gray-400 hover:text-gray-600 rounded-2xl font-bold transition-all px-3 py-2 text-xs"
+                >
+                  Cancel
+                </button>
+              )}
+              <input ref={fileInputRef} type="file" accept=".txt,text/plain" onChange={handleOpenFile} className="hidden" />
+            </div>
+          </>
+        ) : (
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <div className="flex-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full bg-green-400 transition-all" style={{ width: `${knownPercent}%` }}></div>
+              </div>
+              <span className="text-[10px] font-bold text-gray-500 whitespace-nowrap">
+                {knownPercent}% known · {coverage.known}/{coverage.total} words
+              </span>
+            </div>
+
+            <p className="font-thai text-xl leading-loose text-gray-800 whitespace-pre-wrap">
+              {tokens.map((token, idx) => {
+                if (!token.isWord) return <span key={idx}>{token.text}</span>;
+                const known = vocabByThai.has(readerKey(token.text));
+                return (
+                  <span
+                    key={idx}
+                    onClick={() => handleSelectWord(idx)}
+                    className={`cursor-pointer rounded transition-colors ${
+                      selectedIndex === idx ? 'bg-thai-100 ring-1 ring-thai-300' : known ? 'bg-green-50 hover:bg-green-100' : 'hover:bg-gray-100'
+                    }`}
+                  >
+                    <ToneText text={token.text} colored={toneColors} />
+                  </span>
+                );
+              })}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Word popover, docked above the bottom navigation */}
+      {selectedKey && !isEditing && (
+        <div className="fixed bottom-24 left-1/2 -translate-x-1/2 w-[92%] max-w-md bg-white rounded-2xl shadow-2xl border border-gray-100 p-4 z-40 animate-fade-in">
+          <div className="flex items-start gap-3">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-baseline gap-2 flex-wrap">
+                <span className="text-2xl font-bold text-thai-700 font-thai"><ToneText text={selectedKey} colored={toneColors} /></span>
+                <span className="text-xs italic text-gray-400">
+                  {savedCard ? cardTransliteration(savedCard, romanization) : romanize(selectedKey, romanization)}
+                </span>
+              </div>
+              {savedCard ? (
+                <p className="text-sm font-medium text-gray-900 mt-1">{savedCard.english}</p>
+              ) : lookup?.status === 'done' ? (
+                <p className="text-sm font-medium text-gray-900 mt-1">
+                  {lookup.english}
+                  {lookup.partOfSpeech && (
+                    <span className="ml-2 text-[9px] text-gray-400 bg-gray-100 px-1.5 py-0.5 rounded uppercase font-bold">{lookup.partOfSpeech}</span>
+                  )}
+                  {lookup.classifier && (
+                    <span className="ml-2 text-[10px] text-amber-700 bg-amber-50 px-1.5 py-0.5 rounded font-thai">{countPhrase(selectedKey, lookup.classifier)}</span>
+                  )}
+                </p>
+              ) : lookup?.status === 'error' ? (
+                <div className="flex items-center gap-2 mt-1">
+                  <span className="text-xs text-red-600">{ERROR_MESSAGES[lookup.error.kind]}</span>
+                  <button
+                    onClick={() => fetchMeaning(selectedKey)}
+                    className="text-[10px] font-bold bg-white text-red-600 border border-red-200 hover:bg-red-100 px-2 py-1 rounded-lg transition-colors"
+                  >
+                    Retry
+                  </button>
+                </div>
+              ) : (
+                <div className="h-3 bg-gray-200 rounded w-1/2 mt-2 animate-pulse"></div>
+              )}
+            </div>
+            <AudioPlayer text={selectedKey} size="md" className="text-white bg-thai-500 hover:bg-thai-600 shadow-sm p-1.5" />
+            <button onClick={() => setSelectedIndex(null)} className="text-gray-300 hover:text-gray-500 p-1" title="Close">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="flex items-center gap-2 mt-3">
+            {savedCard ? (
+              <span className="flex-1 text-[10px] font-bold text-green-700 bg-green-100 px-2 py-1.5 rounded-lg text-center">
+                In your flashcards
+              </span>
+            ) : (
+              <>
+                <select
+                  value={targetFolderId}
+                  onChange={(e) => setTargetFolderId(e.target.value)}
+                  className="flex-1 text-xs bg-gray-50 border border-gray-100 rounded-lg px-2 py-1.5 outline-none focus:border-thai-500"
+                >
+                  <option value="">General</option>
+                  {folders.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+                </select>
+                <button
+                  onClick={handleSave}
+                  disabled={lookup?.status !== 'done'}
+                  className="text-xs font-bold bg-thai-600 text-white hover:bg-thai-700 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Save
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+import { ERROR_MESSAGES, TranslationError } from '../services/translationErrors';
+
+interface RequestErrorProps {
+  error: TranslationError;
+  onRetry?: () => void;
+  isRetrying?: boolean;
+}
+
+// Why an on-demand request failed, with a Retry button when it can be repeated
+export const RequestError: React.FC<RequestErrorProps> = ({ error, onRetry, isRetrying }) => (
+  <div className="flex items-center gap-2 bg-red-50 border border-red-100 rounded-xl px-3 py-2 animate-fade-in">
+    <span className="text-xs text-red-600 flex-1">{ERROR_MESSAGES[error.kind]}</span>
+    {onRetry && (
+      <button
+        onClick={onRetry}
+        disabled={isRetrying}
+        className="text-[10px] font-bold bg-white text-red-600 border border-red-200 hover:bg-red-100 px-2 py-1 rounded-lg transition-colors disabled:opacity-50"
+      >
+        {isRetrying ? 'Retrying...' : 'Retry'}
+      </button>
+    )}
+  </div>
+);
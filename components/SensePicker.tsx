@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import { WordSense } from '../types';
+import { lookupSenses } from '../services/geminiService';
+import { AudioPlayer } from './AudioPlayer';
+import { RequestError } from './RequestError';
+import { useCancellableRequest } from './useCancellableRequest';
+
+interface SensePickerProps {
+  word: string;
+  context: string; // Text the word was found in, so the matching sense is preselected
+  onSave: (senses: WordSense[]) => void;
+  onCancel: () => void;
+}
+
+// Lets the user choose which dictionary senses of a word go onto the saved card
+export const SensePicker: React.FC<SensePickerProps> = ({ word, context, onSave, onCancel }) => {
+  const [senses, setSenses] = useState<WordSense[] | null>(null); // null until looked up
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const { run, isRunning, error } = useCancellableRequest('Sense lookup');
+  const isLoading = !senses && !error;
+
+  const load = async () => {
+    setSenses(null);
+    const found = await run(signal => lookupSenses(word, context, signal));
+    if (!found) return;
+    const inContext = found.flatMap((s, idx) => s.matchesContext ? [idx] : []);
+    setSelected(new Set(inContext.length > 0 ? inContext : found.length > 0 ? [0] : []));
+    setSenses(found);
+  };
+
+  useEffect(() => {
+    load();
+  }, [word, context]);
+
+  const toggle = (idx: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(idx)) next.delete(idx); else next.add(idx);
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    if (!senses) return;
+    onSave(senses.filter((_, idx) => selected.has(idx)));
+  };
+
+  return (
+    <div className="mt-2 bg-gray-50 rounded-lg p-2 border border-gray-100 animate-fade-in">
+      <p className="text-[9px] font-bold text-gray-400 uppercase tracking-wider mb-1.5">Save which meanings?</p>
+
+      {isLoading && (
+        <div className="space-y-1.5 animate-pulse">
+          <div className="h-2.5 bg-gray-200 rounded w-2/3"></div>
+          <div className="h-2.5 bg-gray-200 rounded w-1/2"></div>
+        </div>
+      )}
+
+      {error && <RequestError error={error} onRetry={load} isRetrying={isRunning} />}
+
+      {senses && (
+        senses.length === 0 ? (
+          <p className="text-xs text-gray-400">No dictionary senses found for this word.</p>
+        ) : (
+          <div className="space-y-1">
+            {senses.map((sense, idx) => (
+              <label key={idx} className={`flex items-start gap-2 p-1.5 rounded-lg cursor-pointer transition-colors ${selected.has(idx) ? 'bg-thai-50' : 'hover:bg-white'}`}>
+                <input
+                  type="checkbox"
+                  checked={selected.has(idx)}
+                  onChange={() => toggle(idx)}
+                  className="mt-0.5 accent-thai-600"
+                />
+                <div className="flex-1 min-w-0 text-xs">
+                  <div className="flex items-baseline gap-1.5 flex-wrap">
+                    <span className="font-medium text-gray-900">{sense.definition}</span>
+                    {sense.partOfSpeech && (
+                      <span className="text-[9px] text-gray-400 bg-gray-100 px-1.5 py-0.5 rounded uppercase font-bold">{sense.partOfSpeech}</span>
+                    )}
+                    {sense.register !== 'neutral' && (
+                      <span className="text-[9px] text-purple-600 bg-purple-50 px-1.5 py-0.5 rounded uppercase font-bold">{sense.register}</span>
+                    )}
+                    {sense.matchesContext && (
+                      <span className="text-[9px] text-thai-600 font-bold">in this text</span>
+                    )}
+                  </div>
+                  {sense.exampleThai && (
+                    <div className="flex items-center gap-1 mt-0.5">
+                      <span className="font-thai text-gray-600">{sense.exampleThai}</span>
+                      <AudioPlayer text={sense.exampleThai} size="sm" />
+                    </div>
+                  )}
+                  {sense.exampleEnglish && <p className="italic text-gray-400">{sense.exampleEnglish}</p>}
+                </div>
+              </label>
+            ))}
+          </div>
+        )
+      )}
+
+      <div className="flex gap-2 mt-2">
+        {senses && senses.length > 0 && (
+          <button
+            onClick={handleSave}
+            disabled={selected.size === 0}
+            className="text-[10px] font-bold bg-thai-600 text-white hover:bg-thai-700 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+          >
+            Save {selected.size === 1 ? 'meaning' : `${selected.size} meanings`}
+          </button>
+        )}
+        {!isLoading && (
+          <button
+            onClick={() => onSave([])}
+            className="text-[10px] font-bold bg-white text-gray-600 border border-gray-200 hover:bg-gray-100 px-3 py-1.5 rounded-lg transition-colors"
+          >
+            Save as shown
+          </button>
+        )}
+        <button
+          onClick={onCancel}
+          className="text-[10px] font-bold text-gray-400 hover:text-gray-600 px-2 py-1.5 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
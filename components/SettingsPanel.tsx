@@ -0,0 +1,96 @@
+import React from 'react';
+import { UserSettings } from '../types';
+import { ROMANIZATION_SCHEMES } from '../services/romanization';
+import { TONES } from '../services/thaiTones';
+import { REGISTERS, SPEAKER_GENDERS } from '../services/politeness';
+import { TONE_COLORS } from './ToneText';
+
+interface SettingsPanelProps {
+  settings: UserSettings;
+  onChange: (settings: UserSettings) => void;
+  onClose: () => void;
+}
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  return (
+    <div className="absolute right-4 top-full mt-2 w-72 bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden z-50 animate-fade-in">
+      <div className="flex items-center justify-between px-4 py-2 bg-gray-50">
+        <span className="text-xs font-bold text-gray-400 uppercase">Settings</span>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1" title="Close settings">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="p-3 space-y-1">
+        <h4 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider ml-1 mb-1">Romanization</h4>
+        {ROMANIZATION_SCHEMES.map(scheme => {
+          const selected = settings.romanization === scheme.id;
+          return (
+            <button
+              key={scheme.id}
+              onClick={() => onChange({ ...settings, romanization: scheme.id })}
+              className={`w-full text-left px-3 py-2 rounded-xl text-sm flex items-center justify-between gap-2 ${selected ? 'bg-thai-50 text-thai-700 font-medium' : 'text-gray-600 hover:bg-gray-50'}`}
+            >
+              <span className="flex items-center gap-2">
+                <span className={`w-2 h-2 rounded-full ${selected ? 'bg-thai-500' : 'bg-gray-300'}`}></span>
+                {scheme.label}
+              </span>
+              <span className="text-xs text-gray-400 italic">{scheme.example}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="p-3 pt-0 space-y-1">
+        <h4 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider ml-1">Speaking as</h4>
+        <div className="flex gap-1">
+          {SPEAKER_GENDERS.map(gender => (
+            <button
+              key={gender.id}
+              onClick={() => onChange({ ...settings, speakerGender: gender.id })}
+              className={`flex-1 px-2 py-1.5 rounded-xl text-xs ${settings.speakerGender === gender.id ? 'bg-thai-50 text-thai-700 font-medium' : 'text-gray-600 hover:bg-gray-50'}`}
+            >
+              {gender.label}
+            </button>
+          ))}
+        </div>
+        <h4 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider ml-1 pt-1">Register</h4>
+        <div className="flex gap-1">
+          {REGISTERS.map(register => (
+            <button
+              key={register.id}
+              onClick={() => onChange({ ...settings, register: register.id })}
+              className={`flex-1 px-2 py-1.5 rounded-xl text-xs ${settings.register === register.id ? 'bg-thai-50 text-thai-700 font-medium' : 'text-gray-600 hover:bg-gray-50'}`}
+              title={register.description}
+            >
+              {register.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-3 pt-0 space-y-2">
+        <label className="flex items-center justify-between px-1 cursor-pointer">
+          <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Tone colours</span>
+          <input
+            type="checkbox"
+            checked={settings.toneColors}
+            onChange={(e) => onChange({ ...settings, toneColors: e.target.checked })}
+            className="accent-thai-600"
+          />
+        </label>
+        {settings.toneColors && (
+          <div className="flex flex-wrap gap-1 px-1">
+            {TONES.map(tone => (
+              <span key={tone} className={`text-[10px] font-bold bg-gray-50 px-1.5 py-0.5 rounded ${TONE_COLORS[tone]}`}>
+                {tone}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
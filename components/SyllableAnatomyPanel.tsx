@@ -0,0 +1,78 @@
+import React from 'react';
+import { RomanizationScheme } from '../types';
+import { FINAL_SOUND_LABELS, analyzeSyllables } from '../services/syllableAnatomy';
+import { TONE_COLORS } from './ToneText';
+
+interface SyllableAnatomyPanelProps {
+  thai: string;
+  romanization: RomanizationScheme;
+  toneColors: boolean;
+}
+
+const CLASS_BADGES = {
+  mid: 'bg-gray-100 text-gray-500',
+  high: 'bg-amber-50 text-amber-600',
+  low: 'bg-blue-50 text-blue-500',
+};
+
+// Reading lesson for one word: each syllable split into initial, vowel, final and tone
+export const SyllableAnatomyPanel: React.FC<SyllableAnatomyPanelProps> = ({ thai, romanization, toneColors }) => {
+  const syllables = analyzeSyllables(thai, romanization);
+  if (syllables.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-1.5 animate-fade-in">
+      {syllables.map((s, idx) => (
+        <div key={idx} className="bg-gray-50 rounded-lg p-2 border border-gray-100 text-[11px] text-gray-600">
+          <div className="flex items-baseline gap-2 mb-1">
+            <span className={`text-base font-bold font-thai ${toneColors ? TONE_COLORS[s.tone] : 'text-thai-700'}`}>{s.text}</span>
+            <span className="italic text-gray-400">{s.romanized}</span>
+            <span className="ml-auto text-[9px] font-bold uppercase text-gray-400">
+              {s.tone} tone · {s.live ? 'live' : 'dead'}
+            </span>
+          </div>
+          <div className="grid grid-cols-2 gap-x-3 gap-y-0.5">
+            <div>
+              <span className="text-gray-400">Initial </span>
+              <span className="font-thai font-bold">{s.initialLetters}</span>{' '}
+              <span className={`text-[9px] font-bold uppercase px-1 rounded ${CLASS_BADGES[s.initialClass]}`}>{s.initialClass}</span>
+              {s.silentLeader && (
+                <span className="text-gray-400"> · silent <span className="font-thai">{s.silentLeader}</span> makes it {s.toneClass}</span>
+              )}
+              {!s.silentLeader && s.toneClass !== s.initialClass && (
+                <span className="text-gray-400"> · read as {s.toneClass}</span>
+              )}
+            </div>
+            <div>
+              <span className="text-gray-400">Vowel </span>
+              <span className="font-thai font-bold">{s.vowelForm === '–' ? 'inherent' : s.vowelForm}</span>{' '}
+              <span className="text-gray-400">({s.long ? 'long' : 'short'})</span>
+            </div>
+            <div>
+              <span className="text-gray-400">Final </span>
+              {s.finalSound ? (
+                <>
+                  <span className="font-thai font-bold">{s.finalLetter || 'in vowel'}</span>{' '}
+                  <span className="text-gray-400">{FINAL_SOUND_LABELS[s.finalSound]}</span>
+                </>
+              ) : (
+                <span className="text-gray-400">none</span>
+              )}
+            </div>
+            <div>
+              <span className="text-gray-400">Tone mark </span>
+              {s.toneMark ? (
+                <>
+                  <span className="font-thai font-bold">{'◌' + s.toneMark}</span>{' '}
+                  <span className="text-gray-400">{s.toneMarkName}</span>
+                </>
+              ) : (
+                <span className="text-gray-400">none</span>
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
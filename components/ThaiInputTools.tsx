@@ -0,0 +1,77 @@
+import React, { useState, useMemo } from 'react';
+import { VocabCard } from '../types';
+import { romanToThai } from '../services/romanInput';
+import { ThaiKeyboard } from './ThaiKeyboard';
+
+interface ThaiInputToolsProps {
+  value: string;
+  onChange: (value: string) => void;
+  vocabulary: VocabCard[];
+}
+
+// Romanized words at the end of the text, which the candidates replace
+const TRAILING_ROMAN = /[a-z][a-z'\s-]*$/i;
+
+// Typing helpers for a text field: romanization-to-Thai candidates and an on-screen keyboard
+export const ThaiInputTools: React.FC<ThaiInputToolsProps> = ({ value, onChange, vocabulary }) => {
+  const [isRomanMode, setIsRomanMode] = useState(false);
+  const [showKeyboard, setShowKeyboard] = useState(false);
+
+  const romanRun = isRomanMode ? value.match(TRAILING_ROMAN)?.[0] || '' : '';
+  const candidates = useMemo(() => romanRun.trim() ? romanToThai(romanRun, vocabulary) : [], [romanRun, vocabulary]);
+
+  const handlePick = (thai: string) => {
+    onChange(value.slice(0, value.length - romanRun.length) + thai);
+  };
+
+  const toggleClass = (active: boolean) =>
+    `text-[10px] font-bold px-2 py-1 rounded-full transition-colors ${active ? 'bg-thai-600 text-white' : 'text-gray-400 hover:text-thai-600 hover:bg-thai-50'}`;
+
+  return (
+    <div>
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          onClick={() => setIsRomanMode(!isRomanMode)}
+          className={toggleClass(isRomanMode)}
+          title="Type Thai in romanization, e.g. sawatdee khrap"
+        >
+          abc → ไทย
+        </button>
+        <button
+          type="button"
+          onClick={() => setShowKeyboard(!showKeyboard)}
+          className={toggleClass(showKeyboard)}
+          title="Thai keyboard (Kedmanee)"
+        >
+          Keyboard
+        </button>
+
+        {candidates.length > 0 && (
+          <div className="flex-1 min-w-0 flex gap-1 overflow-x-auto ml-1">
+            {candidates.map(candidate => (
+              <button
+                key={candidate.thai}
+                type="button"
+                onClick={() => handlePick(candidate.thai)}
+                className={`flex-none text-sm font-thai px-2 py-0.5 rounded-lg border transition-colors ${
+                  candidate.source === 'vocab' ? 'border-green-200 bg-green-50 text-green-800' : 'border-gray-200 bg-white text-gray-700'
+                } hover:border-thai-300 hover:bg-thai-50`}
+                title={[candidate.romanized, candidate.english].filter(Boolean).join(' · ')}
+              >
+                {candidate.thai}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {showKeyboard && (
+        <ThaiKeyboard
+          onKey={(char) => onChange(value + char)}
+          onBackspace={() => onChange(Array.from(value).slice(0, -1).join(''))}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+
+interface ThaiKeyboardProps {
+  onKey: (char: string) => void;
+  onBackspace: () => void;
+}
+
+// Kedmanee layout, the standard Thai keyboard: [unshifted, shifted] per row
+const ROWS: [string, string][] = [
+  ['ๅ / - ภ ถ ุ ึ ค ต จ ข ช', '+ ๑ ๒ ๓ ๔ ู ฿ ๕ ๖ ๗ ๘ ๙'],
+  ['ๆ ไ ำ พ ะ ั ี ร น ย บ ล ฃ', '๐ " ฎ ฑ ธ ํ ๊ ณ ฯ ญ ฐ , ฅ'],
+  ['ฟ ห ก ด เ ้ ่ า ส ว ง', 'ฤ ฆ ฏ โ ฌ ็ ๋ ษ ศ ซ .'],
+  ['ผ ป แ อ ิ ื ท ม ใ ฝ', '( ) ฉ ฮ ฺ ์ ? ฒ ฬ ฦ'],
+];
+
+// Vowel and tone marks sit on a consonant, so their keys show them on a dotted circle
+const COMBINING = /^[\u0E31\u0E34-\u0E3A\u0E47-\u0E4E]$/;
+const keyLabel = (char: string) => COMBINING.test(char) ? `◌${char}` : char;
+
+export const ThaiKeyboard: React.FC<ThaiKeyboardProps> = ({ onKey, onBackspace }) => {
+  const [shifted, setShifted] = useState(false);
+
+  const keyClass = "flex-1 min-w-0 h-9 rounded-lg bg-white border border-gray-200 shadow-sm text-base font-thai text-gray-800 hover:bg-thai-50 active:bg-thai-100 transition-colors";
+
+  return (
+    <div className="mt-2 bg-gray-100 rounded-xl p-1.5 space-y-1 select-none animate-fade-in">
+      {ROWS.map(([normal, shift], rowIdx) => (
+        <div key={rowIdx} className="flex gap-1">
+          {(shifted ? shift : normal).split(' ').map((char, idx) => (
+            <button
+              key={idx}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()} // Keep focus (and the caret) in the input
+              onClick={() => onKey(char)}
+              className={keyClass}
+            >
+              {keyLabel(char)}
+            </button>
+          ))}
+        </div>
+      ))}
+      <div className="flex gap-1">
+        <button
+          type="button"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => setShifted(!shifted)}
+          className={`flex-none px-3 h-9 rounded-lg border text-xs font-bold transition-colors ${shifted ? 'bg-thai-600 border-thai-600 text-white' : 'bg-white border-gray-200 text-gray-500'}`}
+        >
+          Shift
+        </button>
+        <button
+          type="button"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onKey(' ')}
+          className="flex-1 h-9 rounded-lg bg-white border border-gray-200 shadow-sm text-xs text-gray-400 hover:bg-gray-50"
+        >
+          space
+        </button>
+        <button
+          type="button"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={onBackspace}
+          className="flex-none px-3 h-9 rounded-lg bg-white border border-gray-200 text-gray-500 hover:bg-gray-50"
+          title="Backspace"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2M3 12l6.414 6.414a2 2 0 001.414.586H19a2 2 0 002-2V7a2 2 0 00-2-2h-8.172a2 2 0 00-1.414.586L3 12z" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Tone, toneRuns } from '../services/thaiTones';
+
+export const TONE_COLORS: Record<Tone, string> = {
+  mid: 'text-slate-600',
+  low: 'text-sky-600',
+  falling: 'text-rose-600',
+  high: 'text-emerald-600',
+  rising: 'text-violet-600',
+};
+
+interface ToneTextProps {
+  text: string;
+  colored: boolean; // When false the text renders as-is, inheriting its colour
+}
+
+// Renders Thai text with each syllable coloured by its tone
+export const ToneText: React.FC<ToneTextProps> = ({ text, colored }) => {
+  if (!colored) return <>{text}</>;
+
+  return (
+    <>
+      {toneRuns(text).map((run, idx) =>
+        run.tone ? (
+          <span key={idx} className={TONE_COLORS[run.tone]} title={`${run.tone} tone`}>{run.text}</span>
+        ) : (
+          <React.Fragment key={idx}>{run.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
@@ -1,22 +1,71 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { quickTranslate, analyzeText, getSynonymsForSegments } from '../services/geminiService';
-import { TranslationResult, LoadingState, Segment, VocabCard, VocabFolder } from '../types';
+import { quickTranslate, analyzeText, enrichSegments, generateExamples, extractImageText } from '../services/geminiService';
+import { getCachedTranslation, putCachedTranslation } from '../services/translationCache';
+import { isAbortError } from '../services/abortable';
+import { ERROR_MESSAGES, TranslationError, toTranslationError } from '../services/translationErrors';
+import { loadHistory, saveHistory, recordInHistory } from '../services/historyStore';
+import { romanizeOr } from '../services/romanization';
+import { splitSentences } from '../services/sentenceSplitter';
+import { countPhrase } from '../services/classifiers';
+import { REGISTERS, sameProfile } from '../services/politeness';
+import { newExampleId } from '../services/examples';
+import { cardMeanings, sensesSummary } from '../services/senses';
+import { readImageFile } from '../services/imageInput';
+import { englishKey, thaiKey } from '../services/vocabImport';
+import { TranslationResult, LoadingState, Segment, VocabCard, VocabFolder, HistoryEntry, RomanizationScheme, SentenceGloss, SpeechProfile, WordSense, ImageInput, OcrLine } from '../types';
 import { AudioPlayer } from './AudioPlayer';
+import { HistoryPanel } from './HistoryPanel';
+import { ToneText } from './ToneText';
+import { SyllableAnatomyPanel } from './SyllableAnatomyPanel';
+import { InterlinearGloss } from './InterlinearGloss';
+import { SensePicker } from './SensePicker';
+import { GrammarPanel } from './GrammarPanel';
+import { ThaiInputTools } from './ThaiInputTools';
+import { PhotoOverlay } from './PhotoOverlay';
+
+type PipelineStage = 'translate' | 'analyze' | 'enrich' | 'photo';
+
+// Enrichment lists shown on each breakdown card
+const RELATED_GROUPS: { key: 'synonyms' | 'antonyms' | 'relatedWords' | 'collocations'; label: string }[] = [
+  { key: 'synonyms', label: 'Synonyms' },
+  { key: 'antonyms', label: 'Opposites' },
+  { key: 'relatedWords', label: 'Related' },
+  { key: 'collocations', label: 'Phrases' },
+];
 
 interface TranslateTabProps {
   onAddToVocab: (card: VocabCard) => void;
+  onAddManyToVocab: (cards: VocabCard[]) => void;
+  onUpdateCard: (id: string, update: (card: VocabCard) => VocabCard) => void;
   vocabulary: VocabCard[];
   folders: VocabFolder[];
+  romanization: RomanizationScheme;
+  toneColors: boolean;
+  speechProfile: SpeechProfile;
 }
 
-export const TranslateTab: React.FC<TranslateTabProps> = ({ onAddToVocab, vocabulary, folders }) => {
+export const TranslateTab: React.FC<TranslateTabProps> = ({ onAddToVocab, onAddManyToVocab, onUpdateCard, vocabulary, folders, romanization, toneColors, speechProfile }) => {
   const [input, setInput] = useState('');
   const [status, setStatus] = useState<LoadingState>(LoadingState.IDLE);
   const [result, setResult] = useState<TranslationResult | null>(null);
   const [targetFolderId, setTargetFolderId] = useState<string>('');
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+  const [isFromCache, setIsFromCache] = useState(false);
+  const [history, setHistory] = useState<HistoryEntry[]>(() => loadHistory());
+  const [showHistory, setShowHistory] = useState(false);
+  const [stageErrors, setStageErrors] = useState<Partial<Record<PipelineStage, TranslationError>>>({});
+  const [isOfflineAnalysis, setIsOfflineAnalysis] = useState(false);
+  const [anatomyIndex, setAnatomyIndex] = useState<number | null>(null); // Breakdown card showing its syllables
+  const [senseIndex, setSenseIndex] = useState<number | null>(null); // Breakdown card choosing senses to save
+  const [grammarHighlight, setGrammarHighlight] = useState<number[]>([]); // Segments of the selected grammar point
+  const [isParagraphMode, setIsParagraphMode] = useState(false);
+  const [sentences, setSentences] = useState<SentenceGloss[]>([]); // Paragraph-mode and photo line results
+  const [photo, setPhoto] = useState<{ image: ImageInput; url: string; lines: OcrLine[] } | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const currentSearchRef = useRef<string>('');
+  const abortRef = useRef<AbortController | null>(null); // Cancels the in-flight search
+  const exampleAbortsRef = useRef(new Set<AbortController>()); // Background examples for saved words
+  const photoInputRef = useRef<HTMLInputElement>(null);
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -31,22 +80,134 @@ export const TranslateTab: React.FC<TranslateTabProps> = ({ onAddToVocab, vocabu
     };
   }, []);
 
-  const handleSearch = async () => {
-    if (!input.trim()) return;
+  // Stop any running requests when the tab unmounts
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    exampleAbortsRef.current.forEach(controller => controller.abort());
+  }, []);
+
+  // History Helper (persists every change)
+  const updateHistory = (update: (entries: HistoryEntry[]) => HistoryEntry[]) => {
+    setHistory(prev => {
+      const next = update(prev);
+      saveHistory(next);
+      return next;
+    });
+  };
+
+  // Starts a cancellable run for `term`, aborting the previous one's requests
+  const startRun = (term: string) => {
+    currentSearchRef.current = term;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return controller.signal;
+  };
+
+  // True once the user has moved on to another search
+  const isStale = (term: string) => currentSearchRef.current !== term;
+
+  const setStageError = (stage: PipelineStage, error?: TranslationError) => {
+    setStageErrors(prev => ({ ...prev, [stage]: error }));
+  };
+
+  // STEP 3: Enrich with synonyms, antonyms, related words and collocations (Background).
+  // The breakdown is already shown, so a failure only adds a small notice; the lookup
+  // is still recorded without them.
+  const runEnrichment = async (term: string, base: TranslationResult, cacheable: boolean, signal: AbortSignal) => {
+    setStageError('enrich', undefined);
+    let finalResult = base;
+    try {
+      const enrichedSegments = await enrichSegments(base.segments, signal);
+      if (isStale(term)) return;
+
+      finalResult = { ...base, segments: enrichedSegments };
+      setResult(finalResult);
+      // Only complete results are cached (not the offline dictionary fallback)
+      if (cacheable) putCachedTranslation(finalResult);
+    } catch (error) {
+      if (isAbortError(error) || isStale(term)) return;
+      console.warn("Background enrichment failed", error);
+      setStageError('enrich', toTranslationError(error));
+    }
+    updateHistory(entries => recordInHistory(entries, finalResult));
+  };
+
+  // STEP 2: Deep Analysis - Fast Breakdown (No synonyms yet), then STEP 3.
+  // If it fails (or only the offline dictionary answered) the translation card stays up
+  // with a retry for this step only.
+  const runAnalysis = async (term: string, base: TranslationResult, signal: AbortSignal) => {
+    setStageError('analyze', undefined);
+    setStatus(LoadingState.PARTIAL_SUCCESS); // UI shows main card, loads analysis below
+    try {
+      const details = await analyzeText(term, base.translatedText, signal, speechProfile);
+      if (isStale(term)) return;
+
+      const intermediateResult = {
+        ...base,
+        segments: details.segments,
+        exampleSentenceThai: details.exampleSentenceThai,
+        exampleSentenceEnglish: details.exampleSentenceEnglish,
+        registerVariants: details.registerVariants,
+      };
+      setResult(intermediateResult);
+      setGrammarHighlight([]);
+      setStatus(LoadingState.SUCCESS);
+      setIsOfflineAnalysis(!!details.isOffline);
+      // Offline breakdown: still show why the remote providers failed, with a retry
+      setStageError('analyze', details.remoteError);
+
+      await runEnrichment(term, intermediateResult, !details.isOffline, signal);
+    } catch (error) {
+      if (isAbortError(error) || isStale(term)) return;
+      console.error(error);
+      setStageError('analyze', toTranslationError(error));
+      setStatus(LoadingState.SUCCESS);
+    }
+  };
+
+  // forceRefresh skips the cache lookup and overwrites the cached entry
+  const handleSearch = async (term: string = input, forceRefresh = false) => {
+    if (!term.trim()) return;
     
-    // Reset state
-    const currentTerm = input.trim();
-    currentSearchRef.current = currentTerm;
+    // Reset state. A new search cancels the previous one's requests (including background synonyms)
+    const currentTerm = term.trim();
+    const signal = startRun(currentTerm);
     
     setResult(null);
+    setPhoto(null);
+    setAnatomyIndex(null);
+    setSenseIndex(null);
+    setGrammarHighlight([]);
+    setIsFromCache(false);
+    setStageErrors({});
     setStatus(LoadingState.LOADING);
 
     try {
+      // STEP 0: Cache hit renders instantly and skips all network steps.
+      // Results made for another speaker profile would have the wrong particles, so they are misses.
+      if (!forceRefresh) {
+        const cached = await getCachedTranslation(currentTerm);
+        if (isStale(currentTerm)) return;
+        if (cached && sameProfile(cached.speechProfile, speechProfile)) {
+          setResult(cached);
+          setIsFromCache(true);
+          setStatus(LoadingState.SUCCESS);
+          // Paragraph and photo lines are cached without related words; fetch them now
+          if (cached.segments.some(s => s.synonyms === undefined)) {
+            await runEnrichment(currentTerm, cached, true, signal);
+          } else {
+            updateHistory(entries => recordInHistory(entries, cached));
+          }
+          return;
+        }
+      }
+
       // STEP 1: Instant Translation (Google Translate)
-      const basic = await quickTranslate(currentTerm);
+      const basic = await quickTranslate(currentTerm, signal, speechProfile);
       
       // Check if user changed search while waiting
-      if (currentSearchRef.current !== currentTerm) return;
+      if (isStale(currentTerm)) return;
 
       const initialResult: TranslationResult = {
         originalText: currentTerm,
@@ -55,69 +216,255 @@ export const TranslateTab: React.FC<TranslateTabProps> = ({ onAddToVocab, vocabu
         segments: [], // Not ready yet
         exampleSentenceThai: '',
         exampleSentenceEnglish: '',
+        speechProfile,
       };
       
       setResult(initialResult);
-      setStatus(LoadingState.PARTIAL_SUCCESS); // UI shows main card, loads analysis below
+      await runAnalysis(currentTerm, initialResult, signal);
+    } catch (error) {
+      if (isAbortError(error) || isStale(currentTerm)) return; // Cancelled or superseded
+      console.error(error);
+      setStageError('translate', toTranslationError(error));
+      setStatus(LoadingState.ERROR);
+    }
+  };
 
-      // STEP 2: Deep Analysis (Gemini) - Fast Breakdown (No synonyms yet)
-      const details = await analyzeText(currentTerm, basic.translatedText);
-      
-      if (currentSearchRef.current !== currentTerm) return;
+  // Paragraph mode: one translation and breakdown per sentence, through the same cache.
+  // Enrichment is skipped to keep long texts within quota; a later search for the same
+  // sentence finds it missing and runs it then.
+  const translateSentence = async (text: string, signal: AbortSignal): Promise<TranslationResult> => {
+    const cached = await getCachedTranslation(text);
+    if (cached && sameProfile(cached.speechProfile, speechProfile)) return cached;
 
-      const intermediateResult = {
-        ...initialResult,
-        segments: details.segments,
-        exampleSentenceThai: details.exampleSentenceThai,
-        exampleSentenceEnglish: details.exampleSentenceEnglish
-      };
-      
-      setResult(intermediateResult);
-      setStatus(LoadingState.SUCCESS);
+    const basic = await quickTranslate(text, signal, speechProfile);
+    const details = await analyzeText(text, basic.translatedText, signal, speechProfile);
+    const sentenceResult: TranslationResult = {
+      originalText: text,
+      translatedText: basic.translatedText,
+      transliteration: basic.transliteration,
+      segments: details.segments,
+      exampleSentenceThai: details.exampleSentenceThai,
+      exampleSentenceEnglish: details.exampleSentenceEnglish,
+      registerVariants: details.registerVariants,
+      speechProfile,
+    };
+    if (!details.isOffline) putCachedTranslation(sentenceResult);
+    return sentenceResult;
+  };
+
+  const setSentence = (index: number, sentence: SentenceGloss) => {
+    setSentences(prev => prev.map((s, i) => i === index ? sentence : s));
+  };
 
-      // STEP 3: Enrich with Synonyms (Background)
-      // This runs silently and updates the UI when ready
+  // Translates the given sentences one at a time so results fill in top to bottom
+  const runParagraph = async (runId: string, items: SentenceGloss[], indices: number[]) => {
+    const signal = startRun(runId);
+    setStatus(LoadingState.LOADING);
+
+    for (const index of indices) {
+      const text = items[index].text;
       try {
-         const segmentsWithSynonyms = await getSynonymsForSegments(details.segments);
-         
-         if (currentSearchRef.current !== currentTerm) return;
-
-         setResult(prev => prev ? {
-             ...prev,
-             segments: segmentsWithSynonyms
-         } : null);
-      } catch (synErr) {
-         console.warn("Background synonym fetch failed", synErr);
-         // Non-critical failure, ignore
+        const sentenceResult = await translateSentence(text, signal);
+        if (isStale(runId)) return;
+        setSentence(index, { text, result: sentenceResult });
+      } catch (error) {
+        if (isAbortError(error) || isStale(runId)) return;
+        console.error(error);
+        setSentence(index, { text, error: toTranslationError(error) });
       }
+    }
+    setStatus(LoadingState.SUCCESS);
+  };
 
+  const handleParagraph = () => {
+    const items = splitSentences(input).map(text => ({ text }));
+    if (items.length === 0) return;
+
+    setResult(null);
+    setPhoto(null);
+    setStageErrors({});
+    setSentences(items);
+    runParagraph(input.trim(), items, items.map((_, i) => i));
+  };
+
+  const handleRetrySentence = (index: number) => {
+    setSentence(index, { text: sentences[index].text });
+    runParagraph(currentSearchRef.current || input.trim(), sentences, [index]);
+  };
+
+  // Photo mode: reads the Thai lines in a picture, then runs each through the paragraph pipeline
+  const runPhoto = async (image: ImageInput, url: string) => {
+    const runId = `photo:${Date.now()}`;
+    const signal = startRun(runId);
+
+    setResult(null);
+    setStageErrors({});
+    setSentences([]);
+    setPhoto({ image, url, lines: [] });
+    setStatus(LoadingState.LOADING);
+    try {
+      const lines = await extractImageText(image, signal);
+      if (isStale(runId)) return;
+
+      const items = lines.map(line => ({ text: line.text }));
+      setPhoto({ image, url, lines });
+      setSentences(items);
+      await runParagraph(runId, items, items.map((_, i) => i));
     } catch (error) {
+      if (isAbortError(error) || isStale(runId)) return;
       console.error(error);
+      setStageError('photo', toTranslationError(error));
       setStatus(LoadingState.ERROR);
     }
   };
 
+  const handlePhotoFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same photo again
+    if (!file) return;
+    try {
+      const { image, url } = await readImageFile(file);
+      setIsParagraphMode(false);
+      runPhoto(image, url);
+    } catch (error) {
+      console.error("Error reading photo", error);
+      alert("Couldn't read that photo.");
+    }
+  };
+
+  const handleSubmit = () => {
+    if (isParagraphMode) handleParagraph();
+    else handleSearch();
+  };
+
+  const handleRetryAnalysis = () => {
+    if (!result) return;
+    const signal = startRun(result.originalText);
+    runAnalysis(result.originalText, { ...result, segments: [] }, signal);
+  };
+
+  const handleRetryEnrichment = () => {
+    if (!result) return;
+    const signal = startRun(result.originalText);
+    runEnrichment(result.originalText, result, !isOfflineAnalysis, signal);
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    currentSearchRef.current = '';
+    setStatus(LoadingState.IDLE);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') handleSearch();
   };
 
-  const isSaved = (thaiText: string) => {
+  // In the textarea Enter adds a line; Ctrl/Cmd+Enter translates
+  const handleParagraphKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleParagraph();
+    }
+  };
+
+  // Opens a related word from a breakdown card as a new search
+  const handleOpenWord = (word: string) => {
+    setInput(word);
+    handleSearch(word);
+  };
+
+  const handleRefresh = () => {
+    if (result) handleSearch(result.originalText, true);
+  };
+
+  // A word is saved when a card has the same Thai and this meaning, so homographs
+  // (e.g. เขา "he" and เขา "mountain") each get their own card
+  const isSaved = (thaiText: string, english: string) => {
     if (!thaiText) return false;
-    return vocabulary.some(c => c.thai.trim() === thaiText.trim());
+    const key = thaiKey(thaiText);
+    const meaning = englishKey(english);
+    return vocabulary.some(c =>
+      thaiKey(c.thai) === key && (!meaning || cardMeanings(c).some(m => englishKey(m) === meaning)));
   };
 
-  const handleAddSegment = (segment: Segment) => {
-    if (isSaved(segment.thai)) return;
-    const newCard: VocabCard = {
-      id: Date.now().toString() + Math.random().toString(),
-      thai: segment.thai,
-      transliteration: segment.transliteration,
-      english: segment.english,
-      partOfSpeech: segment.partOfSpeech,
-      dateAdded: Date.now(),
-      folderId: targetFolderId || undefined,
-    };
-    onAddToVocab(newCard);
+  // Transliterations follow the user's chosen scheme rather than whatever the provider returned
+  const segmentTransliteration = (segment: Segment) =>
+    romanizeOr(segment.thai, segment.transliteration, romanization);
+
+  // With picked senses the card's gloss is built from them instead of the breakdown's
+  const buildSegmentCard = (segment: Segment, folderId: string, senses: WordSense[] = []): VocabCard => ({
+    id: Date.now().toString() + Math.random().toString(),
+    thai: segment.thai,
+    transliteration: segmentTransliteration(segment),
+    english: senses.length > 0 ? sensesSummary(senses) : segment.english,
+    partOfSpeech: senses[0]?.partOfSpeech || segment.partOfSpeech,
+    classifier: segment.classifier,
+    ...(senses.length > 0 ? { senses } : {}),
+    dateAdded: Date.now(),
+    folderId: folderId || undefined,
+  });
+
+  const handleAddSegment = (segment: Segment, senses: WordSense[] = []) => {
+    const card: VocabCard = { ...buildSegmentCard(segment, targetFolderId, senses), exampleStatus: 'generating' };
+    if (cardMeanings(card).every(meaning => isSaved(card.thai, meaning))) return;
+    setSenseIndex(null);
+    onAddToVocab(card);
+
+    // Examples arrive in the background; the card is already saved without them and
+    // shows that they are being written, or that writing them failed
+    const controller = new AbortController();
+    exampleAbortsRef.current.add(controller);
+    generateExamples({ thai: card.thai, english: card.english, levels: ['beginner', 'intermediate'], avoid: [] }, controller.signal, speechProfile)
+      .then(examples => onUpdateCard(card.id, ({ exampleStatus, ...current }) => ({
+        ...current,
+        examples: [...(current.examples || []), ...examples],
+      })))
+      .catch(error => {
+        if (!isAbortError(error)) console.warn("Couldn't generate examples for saved word", error);
+        onUpdateCard(card.id, current => ({ ...current, exampleStatus: 'failed' }));
+      })
+      .finally(() => exampleAbortsRef.current.delete(controller));
+  };
+
+  // History Actions
+  const handleOpenHistory = (entry: HistoryEntry) => {
+    // Replays the stored result without calling any API
+    currentSearchRef.current = entry.result.originalText;
+    setInput(entry.result.originalText);
+    abortRef.current?.abort();
+    setIsParagraphMode(false);
+    setSentences([]);
+    setPhoto(null);
+    setResult(entry.result);
+    setAnatomyIndex(null);
+    setSenseIndex(null);
+    setGrammarHighlight([]);
+    setStageErrors({});
+    setIsFromCache(true);
+    setStatus(LoadingState.SUCCESS);
+    setShowHistory(false);
+  };
+
+  const handleTogglePin = (id: string) => {
+    updateHistory(entries => entries.map(e => e.id === id ? { ...e, pinned: !e.pinned } : e));
+  };
+
+  const handleDeleteHistory = (id: string) => {
+    updateHistory(entries => entries.filter(e => e.id !== id));
+  };
+
+  const handleBulkSave = (segments: Segment[], folderId: string) => {
+    // Skip words already saved, and duplicates within the selection
+    const seen = new Set<string>();
+    const cards: VocabCard[] = [];
+    segments.forEach(segment => {
+      const key = `${thaiKey(segment.thai)}|${englishKey(segment.english)}`;
+      if (isSaved(segment.thai, segment.english) || seen.has(key)) return;
+      seen.add(key);
+      cards.push(buildSegmentCard(segment, folderId));
+    });
+    onAddManyToVocab(cards);
   };
 
   const handleAddMain = () => {
@@ -126,28 +473,44 @@ export const TranslateTab: React.FC<TranslateTabProps> = ({ onAddToVocab, vocabu
     const isThaiInput = /[\u0E00-\u0E7F]/.test(result.originalText);
     const mainThai = isThaiInput ? result.originalText : result.translatedText;
     
-    if (isSaved(mainThai)) return;
-
     const mainEnglish = isThaiInput ? result.translatedText : result.originalText;
-    
+    if (isSaved(mainThai, mainEnglish)) return;
+
     const newCard: VocabCard = {
       id: Date.now().toString(),
       thai: mainThai,
-      transliteration: result.transliteration,
+      transliteration: romanizeOr(mainThai, result.transliteration, romanization),
       english: mainEnglish,
-      exampleThai: result.exampleSentenceThai,
-      exampleEnglish: result.exampleSentenceEnglish,
+      examples: result.exampleSentenceThai
+        ? [{ id: newExampleId(), thai: result.exampleSentenceThai, english: result.exampleSentenceEnglish, level: 'beginner' }]
+        : [],
       dateAdded: Date.now(),
       folderId: targetFolderId || undefined,
     };
     onAddToVocab(newCard);
   };
 
+  const renderStageError = (label: string, error: TranslationError, onRetry: () => void) => (
+    <div className="bg-red-50 border border-red-100 rounded-xl p-3 flex items-start justify-between gap-3 animate-fade-in">
+      <div className="text-xs">
+        <div className="font-bold text-red-700">{label}</div>
+        <div className="text-red-600 mt-0.5">{ERROR_MESSAGES[error.kind]}</div>
+      </div>
+      <button
+        onClick={onRetry}
+        className="flex-none text-[10px] font-bold bg-white text-red-600 border border-red-200 hover:bg-red-100 px-2 py-1 rounded-lg transition-colors"
+      >
+        Retry
+      </button>
+    </div>
+  );
+
   // Determine if the main result is saved
   const isThaiInput = result ? /[\u0E00-\u0E7F]/.test(result.originalText) : false;
   const mainThai = result ? (isThaiInput ? result.originalText : result.translatedText) : '';
   const mainEnglish = result ? (isThaiInput ? result.translatedText : result.originalText) : '';
-  const isMainSaved = isSaved(mainThai);
+  const mainTransliteration = result ? romanizeOr(mainThai, result.transliteration, romanization) : '';
+  const isMainSaved = isSaved(mainThai, mainEnglish);
 
   const selectedFolderName = targetFolderId 
     ? folders.find(f => f.id === targetFolderId)?.name || 'Unknown' 
@@ -156,7 +519,7 @@ export const TranslateTab: React.FC<TranslateTabProps> = ({ onAddToVocab, vocabu
   // UI State for Layout Mode
   // If we have a result OR are loading, we use compact mode.
   // If we are IDLE (fresh start), we use large card mode.
-  const isCompact = status !== LoadingState.IDLE && (status === LoadingState.LOADING || result !== null);
+  const isCompact = status !== LoadingState.IDLE && (status === LoadingState.LOADING || result !== null || sentences.length > 0 || photo !== null);
 
   return (
     <div className={`max-w-2xl mx-auto pb-20 transition-all duration-500 ease-in-out ${!isCompact ? 'h-[70vh] flex flex-col justify-center' : ''}`}>
@@ -169,9 +532,45 @@ export const TranslateTab: React.FC<TranslateTabProps> = ({ onAddToVocab, vocabu
         
         {/* Header: Label & Folder Selector */}
         <div className="flex items-center justify-between mb-2">
-           <label className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">
-             Translate
-           </label>
+           <div className="flex items-center gap-2">
+             <label className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+               Translate
+             </label>
+             <button
+               onClick={() => setShowHistory(!showHistory)}
+               className={`flex items-center gap-1 px-2 py-1 rounded-full text-[10px] font-bold transition-colors ${showHistory ? 'bg-thai-100 text-thai-700' : 'text-gray-400 hover:text-thai-600 hover:bg-thai-50'}`}
+               title="Show translation history"
+             >
+               <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+               </svg>
+               History{history.length > 0 && ` (${history.length})`}
+             </button>
+             <button
+               onClick={() => setIsParagraphMode(!isParagraphMode)}
+               disabled={status === LoadingState.LOADING}
+               className={`flex items-center gap-1 px-2 py-1 rounded-full text-[10px] font-bold transition-colors disabled:opacity-50 ${isParagraphMode ? 'bg-thai-100 text-thai-700' : 'text-gray-400 hover:text-thai-600 hover:bg-thai-50'}`}
+               title="Translate several sentences with a word-by-word gloss"
+             >
+               <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h16M4 18h10" />
+               </svg>
+               Paragraph
+             </button>
+             <button
+               onClick={() => photoInputRef.current?.click()}
+               disabled={status === LoadingState.LOADING}
+               className={`flex items-center gap-1 px-2 py-1 rounded-full text-[10px] font-bold transition-colors disabled:opacity-50 ${photo ? 'bg-thai-100 text-thai-700' : 'text-gray-400 hover:text-thai-600 hover:bg-thai-50'}`}
+               title="Translate a photo of a sign or menu"
+             >
+               <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" />
+                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
+               </svg>
+               Photo
+             </button>
+             <input ref={photoInputRef} type="file" accept="image/*" capture="environment" onChange={handlePhotoFile} className="hidden" />
+           </div>
            
            {/* Compact Folder Selector Pill */}
            <div className="flex items-center gap-2">
@@ -218,48 +617,128 @@ export const TranslateTab: React.FC<TranslateTabProps> = ({ onAddToVocab, vocabu
 
         {/* Centered Input - Reduced Size & Weight */}
         <div className="relative group mb-2">
-          <input
-            type="text"
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={handleKeyDown}
-            placeholder=""
-            className={`w-full text-center font-medium text-gray-800 placeholder-gray-300 border-b border-gray-100 focus:border-thai-500 bg-transparent py-1 outline-none transition-all font-thai
-                ${isCompact ? 'text-lg' : 'text-2xl'}
-            `}
-            autoFocus={false}
-          />
+          {isParagraphMode ? (
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={handleParagraphKeyDown}
+              placeholder="Paste a paragraph (Ctrl+Enter to translate)"
+              rows={isCompact ? 3 : 5}
+              className="w-full font-medium text-gray-800 placeholder-gray-300 border border-gray-100 focus:border-thai-500 rounded-xl bg-transparent p-2 outline-none transition-all font-thai text-base resize-y"
+            />
+          ) : (
+            <input
+              type="text"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder=""
+              className={`w-full text-center font-medium text-gray-800 placeholder-gray-300 border-b border-gray-100 focus:border-thai-500 bg-transparent py-1 outline-none transition-all font-thai
+                  ${isCompact ? 'text-lg' : 'text-2xl'}
+              `}
+              autoFocus={false}
+            />
+          )}
+          <ThaiInputTools value={input} onChange={setInput} vocabulary={vocabulary} />
         </div>
 
         {/* Action Button - Smaller in compact mode */}
-        <button
-            onClick={handleSearch}
-            disabled={status === LoadingState.LOADING}
-            className={`w-full bg-thai-600 text-white rounded-2xl font-bold hover:bg-thai-700 transition-all shadow-lg hover:shadow-xl disabled:opacity-70 transform active:scale-95 flex items-center justify-center gap-2
-                ${isCompact ? 'py-2 text-xs' : 'py-4 text-xl'}
-            `}
-          >
-            {status === LoadingState.LOADING ? (
-              <>
-                <svg className="animate-spin h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-                <span>Translating...</span>
-              </>
-            ) : (
-              <>
-                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-4 h-4">
-                    <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" />
-                </svg>
-                <span>Translate</span>
-              </>
-            )}
-          </button>
+        <div className="flex gap-2">
+          <button
+              onClick={handleSubmit}
+              disabled={status === LoadingState.LOADING}
+              className={`w-full bg-thai-600 text-white rounded-2xl font-bold hover:bg-thai-700 transition-all shadow-lg hover:shadow-xl disabled:opacity-70 transform active:scale-95 flex items-center justify-center gap-2
+                  ${isCompact ? 'py-2 text-xs' : 'py-4 text-xl'}
+              `}
+            >
+              {status === LoadingState.LOADING ? (
+                <>
+                  <svg className="animate-spin h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                  <span>Translating...</span>
+                </>
+              ) : (
+                <>
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-4 h-4">
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" />
+                  </svg>
+                  <span>Translate</span>
+                </>
+              )}
+            </button>
+
+          {status === LoadingState.LOADING && (
+            <button
+              onClick={handleCancel}
+              className={`flex-none bg-gray-100 text-gray-600 rounded-2xl font-bold hover:bg-gray-200 transition-all px-4
+                  ${isCompact ? 'py-2 text-xs' : 'py-4 text-xl'}
+              `}
+              title="Stop this translation"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
       </div>
 
+      {showHistory && (
+        <HistoryPanel
+          entries={history}
+          folders={folders}
+          defaultFolderId={targetFolderId}
+          isSaved={isSaved}
+          onOpen={handleOpenHistory}
+          onTogglePin={handleTogglePin}
+          onDelete={handleDeleteHistory}
+          onBulkSave={handleBulkSave}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {photo && (
+        <div className="space-y-3 pt-1">
+          <PhotoOverlay
+            url={photo.url}
+            lines={photo.lines}
+            sentences={sentences}
+            isScanning={status === LoadingState.LOADING && photo.lines.length === 0}
+          />
+          {stageErrors.photo && renderStageError('Reading the photo failed', stageErrors.photo, () => runPhoto(photo.image, photo.url))}
+          {sentences.length > 0 && (
+            <InterlinearGloss
+              sentences={sentences}
+              isLoading={status === LoadingState.LOADING}
+              romanization={romanization}
+              toneColors={toneColors}
+              isSaved={isSaved}
+              onSaveSegment={handleAddSegment}
+              onRetry={handleRetrySentence}
+              itemLabel="Line"
+            />
+          )}
+        </div>
+      )}
+
+      {isParagraphMode && !photo && sentences.length > 0 && (
+        <InterlinearGloss
+          sentences={sentences}
+          isLoading={status === LoadingState.LOADING}
+          romanization={romanization}
+          toneColors={toneColors}
+          isSaved={isSaved}
+          onSaveSegment={handleAddSegment}
+          onRetry={handleRetrySentence}
+        />
+      )}
+
+      {!isParagraphMode && status === LoadingState.ERROR && stageErrors.translate && (
+        renderStageError('Translation failed', stageErrors.translate, () => handleSearch(currentSearchRef.current))
+      )}
+
       {/* Results Area */}
-      {(status === LoadingState.SUCCESS || status === LoadingState.PARTIAL_SUCCESS) && result && (
+      {!isParagraphMode && (status === LoadingState.SUCCESS || status === LoadingState.PARTIAL_SUCCESS) && result && (
         <div className="space-y-3 animate-fade-in pt-1 pb-20">
           
           {/* Main Translation Card - Compact */}
@@ -267,7 +746,21 @@ export const TranslateTab: React.FC<TranslateTabProps> = ({ onAddToVocab, vocabu
             <div className="absolute top-0 left-0 w-1.5 h-full bg-thai-500"></div>
             
             <div className="flex justify-between items-center mb-2 pl-3">
-               <span className="text-[10px] font-bold text-gray-300 uppercase tracking-wider">Translation</span>
+               <div className="flex items-center gap-2">
+                  <span className="text-[10px] font-bold text-gray-300 uppercase tracking-wider">Translation</span>
+                  {isFromCache && (
+                     <button
+                       onClick={handleRefresh}
+                       className="text-[9px] text-gray-400 bg-gray-50 hover:bg-thai-50 hover:text-thai-600 px-1.5 py-0.5 rounded border border-gray-100 transition-colors flex items-center gap-1"
+                       title="Loaded from cache. Fetch a fresh translation"
+                     >
+                       <svg xmlns="http://www.w3.org/2000/svg" className="h-2.5 w-2.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                       </svg>
+                       Cached · Refresh
+                     </button>
+                  )}
+               </div>
                <button 
                  onClick={handleAddMain} 
                  disabled={isMainSaved}
@@ -298,7 +791,7 @@ export const TranslateTab: React.FC<TranslateTabProps> = ({ onAddToVocab, vocabu
             <div className="flex items-start gap-3 pl-3">
                <div className="flex-1">
                   <h2 className="text-2xl font-bold text-thai-700 font-thai mb-0.5 leading-tight">{mainThai}</h2>
-                  <p className="text-xs text-gray-400 mb-0.5">{result.transliteration}</p>
+                  <p className="text-xs text-gray-400 mb-0.5">{mainTransliteration}</p>
                   <p className="text-lg font-medium text-gray-900 leading-tight">{mainEnglish}</p>
                </div>
                <div className="pt-0.5">
@@ -316,9 +809,42 @@ export const TranslateTab: React.FC<TranslateTabProps> = ({ onAddToVocab, vocabu
                   <p className="text-xs text-gray-600 italic leading-snug">{result.exampleSentenceEnglish}</p>
                </div>
             )}
+
+            {/* Same sentence in each register, the user's preferred one highlighted */}
+            {result.registerVariants && result.registerVariants.length > 0 && (
+               <div className="mt-2 ml-3">
+                  <h4 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Registers</h4>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-1.5">
+                     {REGISTERS.map(register => {
+                        const variant = result.registerVariants!.find(v => v.register === register.id);
+                        if (!variant) return null;
+                        const preferred = register.id === speechProfile.register;
+                        return (
+                           <div key={register.id} className={`p-2 rounded-xl border ${preferred ? 'bg-thai-50 border-thai-200' : 'bg-gray-50 border-gray-100'}`}>
+                              <div className="flex items-center justify-between">
+                                 <span className={`text-[9px] font-bold uppercase tracking-wider ${preferred ? 'text-thai-700' : 'text-gray-400'}`}>{register.label}</span>
+                                 <AudioPlayer text={variant.thai} size="sm" />
+                              </div>
+                              <p className="text-sm text-gray-800 font-thai leading-snug"><ToneText text={variant.thai} colored={toneColors} /></p>
+                              <p className="text-[10px] text-gray-500 italic leading-snug">{variant.english}</p>
+                           </div>
+                        );
+                     })}
+                  </div>
+               </div>
+            )}
           </div>
 
           {/* Word Breakdown */}
+          {stageErrors.analyze && (
+            <div className="px-1">
+              {renderStageError(
+                result.segments.length > 0 ? 'Breakdown from the offline dictionary' : 'Breakdown failed',
+                stageErrors.analyze,
+                handleRetryAnalysis
+              )}
+            </div>
+          )}
           {status === LoadingState.PARTIAL_SUCCESS ? (
             <div className="space-y-2 opacity-60 px-1">
               <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider ml-1">Breakdown</h3>
@@ -339,48 +865,88 @@ export const TranslateTab: React.FC<TranslateTabProps> = ({ onAddToVocab, vocabu
             </div>
           ) : (
             result.segments.length > 0 && (
+              <>
+              <GrammarPanel
+                key={`${result.originalText}:${result.segments.map(s => s.thai).join('|')}`}
+                thai={isThaiInput ? result.originalText : result.translatedText}
+                english={isThaiInput ? result.translatedText : result.originalText}
+                segments={result.segments}
+                highlighted={grammarHighlight}
+                onHighlight={setGrammarHighlight}
+                toneColors={toneColors}
+              />
               <div className="space-y-2 animate-fade-in px-1">
                  <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider ml-1">Breakdown</h3>
                  <div className="grid gap-2">
                     {result.segments.map((segment, idx) => {
-                       const saved = isSaved(segment.thai);
+                       const saved = isSaved(segment.thai, segment.english);
                        return (
-                          <div key={idx} className="bg-white rounded-xl p-3 shadow-sm border border-gray-100 flex items-start justify-between group transition-all">
+                          <div key={idx} className={`bg-white rounded-xl p-3 shadow-sm border flex items-start justify-between group transition-all ${grammarHighlight.includes(idx) ? 'border-thai-300 ring-2 ring-thai-100' : 'border-gray-100'}`}>
                              <div className="flex items-start gap-2.5">
                                 <div className="mt-0.5">
                                    <AudioPlayer text={segment.thai} size="sm" className="text-gray-300 hover:text-thai-600 bg-gray-50" />
                                 </div>
                                 <div>
                                    <div className="flex items-baseline gap-2 flex-wrap">
-                                      <span className="text-base font-bold text-thai-700 font-thai">{segment.thai}</span>
+                                      <span className="text-base font-bold text-thai-700 font-thai"><ToneText text={segment.thai} colored={toneColors} /></span>
                                       <span className="text-[9px] text-gray-400 bg-gray-100 px-1.5 py-0.5 rounded uppercase font-bold">{segment.partOfSpeech}</span>
+                                      {segment.classifier && (
+                                        <span className="text-[10px] text-amber-700 bg-amber-50 px-1.5 py-0.5 rounded font-thai" title="Classifier (counting word)">
+                                          {countPhrase(segment.thai, segment.classifier)}
+                                        </span>
+                                      )}
                                    </div>
                                    <div className="text-gray-600 mt-0.5 text-xs">
                                       <span className="font-medium text-gray-900">{segment.english}</span>
                                       <span className="text-gray-300 mx-1.5">|</span>
-                                      <span className="italic text-gray-500">{segment.transliteration}</span>
+                                      <span className="italic text-gray-500">{segmentTransliteration(segment)}</span>
                                    </div>
                                    
-                                   {/* Synonyms Display */}
-                                   {segment.synonyms && segment.synonyms.length > 0 && (
-                                      <div className="mt-1.5 flex flex-wrap gap-1 animate-fade-in">
-                                         {segment.synonyms.slice(0, 4).map((syn, sIdx) => (
-                                            <button 
-                                              key={sIdx} 
-                                              onClick={() => setInput(syn)} 
-                                              className="text-[9px] text-gray-500 bg-gray-50 hover:bg-thai-50 hover:text-thai-600 px-1.5 py-0.5 rounded border border-gray-100 transition-colors"
-                                            >
-                                              {syn}
-                                            </button>
-                                         ))}
-                                      </div>
+                                   {/* Synonyms, Opposites, Related Words and Phrases */}
+                                   {RELATED_GROUPS.map(({ key, label }) => {
+                                      const words = segment[key];
+                                      if (!words || words.length === 0) return null;
+                                      return (
+                                         <div key={key} className="mt-1.5 flex flex-wrap items-center gap-1 animate-fade-in">
+                                            <span className="text-[9px] font-bold text-gray-300 uppercase tracking-wider mr-0.5">{label}</span>
+                                            {words.slice(0, 4).map((word, wIdx) => (
+                                               <button 
+                                                 key={wIdx} 
+                                                 onClick={() => handleOpenWord(word)} 
+                                                 className="text-[9px] text-gray-500 bg-gray-50 hover:bg-thai-50 hover:text-thai-600 px-1.5 py-0.5 rounded border border-gray-100 transition-colors font-thai"
+                                                 title={`Look up "${word}"`}
+                                               >
+                                                 {word}
+                                               </button>
+                                            ))}
+                                         </div>
+                                      );
+                                   })}
+
+                                   <button
+                                     onClick={() => setAnatomyIndex(anatomyIndex === idx ? null : idx)}
+                                     className={`mt-1.5 text-[9px] font-bold uppercase tracking-wider transition-colors ${anatomyIndex === idx ? 'text-thai-600' : 'text-gray-300 hover:text-thai-600'}`}
+                                   >
+                                     {anatomyIndex === idx ? 'Hide syllables' : 'Syllables'}
+                                   </button>
+                                   {anatomyIndex === idx && (
+                                     <SyllableAnatomyPanel thai={segment.thai} romanization={romanization} toneColors={toneColors} />
+                                   )}
+                                   {senseIndex === idx && !saved && (
+                                     <SensePicker
+                                       word={segment.thai}
+                                       context={isThaiInput ? result.originalText : result.translatedText}
+                                       onSave={(senses) => handleAddSegment(segment, senses)}
+                                       onCancel={() => setSenseIndex(null)}
+                                     />
                                    )}
                                 </div>
                              </div>
                              
                              <button 
-                                onClick={() => handleAddSegment(segment)}
+                                onClick={() => setSenseIndex(senseIndex === idx ? null : idx)}
                                 disabled={saved}
+                                title={saved ? 'Saved' : 'Save to flashcards'}
                                 className={`p-1.5 rounded-lg transition-all ${
                                   saved 
                                     ? 'text-green-500 bg-green-50' 
@@ -401,7 +967,10 @@ export const TranslateTab: React.FC<TranslateTabProps> = ({ onAddToVocab, vocabu
                        );
                     })}
                  </div>
+
+                 {stageErrors.enrich && renderStageError('Related words unavailable', stageErrors.enrich, handleRetryEnrichment)}
               </div>
+              </>
             )
           )}
         </div>
@@ -1,6 +1,17 @@
 import React, { useState, useRef } from 'react';
-import { VocabCard, VocabFolder } from '../types';
+import { ImportPlan, ImportResolution, ImportSummary, RomanizationScheme, SpeechProfile, StudyFront, VocabCard, VocabFolder } from '../types';
+import { cardTransliteration, romanize } from '../services/romanization';
+import { countPhrase } from '../services/classifiers';
+import { dueCards, dueLabel } from '../services/srs';
 import { AudioPlayer } from './AudioPlayer';
+import { ToneText } from './ToneText';
+import { SyllableAnatomyPanel } from './SyllableAnatomyPanel';
+import { CardExamples } from './CardExamples';
+import { ThaiInputTools } from './ThaiInputTools';
+import { FlashcardStudy } from './FlashcardStudy';
+import { CardEditor } from './CardEditor';
+import { ImportDialog } from './ImportDialog';
+import { planImport } from '../services/vocabImport';
 
 interface VocabTabProps {
   vocabulary: VocabCard[];
@@ -9,7 +20,14 @@ interface VocabTabProps {
   onCreateFolder: (name: string) => void;
   onDeleteFolder: (id: string) => void;
   onMoveCard: (card: VocabCard) => void;
-  onImport: (vocab: VocabCard[], folders: VocabFolder[]) => void;
+  onImport: (plan: ImportPlan, resolutions: ImportResolution[]) => ImportSummary;
+  onUpdateCard: (id: string, update: (card: VocabCard) => VocabCard) => void;
+  romanization: RomanizationScheme;
+  toneColors: boolean;
+  speechProfile: SpeechProfile;
+  studyFront: StudyFront;
+  onStudyFrontChange: (front: StudyFront) => void;
+  isActive: boolean; // Whether the Vocab tab is the one shown
 }
 
 export const VocabTab: React.FC<VocabTabProps> = ({ 
@@ -19,19 +37,40 @@ export const VocabTab: React.FC<VocabTabProps> = ({
     onCreateFolder, 
     onDeleteFolder,
     onMoveCard,
-    onImport
+    onImport,
+    onUpdateCard,
+    romanization,
+    toneColors,
+    speechProfile,
+    studyFront,
+    onStudyFrontChange,
+    isActive
 }) => {
   const [viewFolderId, setViewFolderId] = useState<string | 'ROOT'>('ROOT');
   const [isCreating, setIsCreating] = useState(false);
   const [newFolderName, setNewFolderName] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
+  const [anatomyCardId, setAnatomyCardId] = useState<string | null>(null); // Card showing its syllables
+  const [editingCardId, setEditingCardId] = useState<string | null>(null);
+  const [importPlan, setImportPlan] = useState<ImportPlan | null>(null); // Backup being previewed
+  const [studyCardIds, setStudyCardIds] = useState<string[] | null>(null); // Flip-card session in the open folder
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+
   // Helper to calculate counts
   const getCount = (folderId?: string) => {
     return vocabulary.filter(c => c.folderId === folderId).length;
   };
 
+  const getDueCount = (folderId?: string) => dueCards(vocabulary.filter(c => c.folderId === folderId)).length;
+
+  const renderDueBadge = (folderId?: string) => {
+    const due = getDueCount(folderId);
+    return due > 0 && (
+      <span className="mt-1.5 text-[10px] font-bold text-thai-700 bg-thai-50 px-2 py-0.5 rounded-full">{due} due</span>
+    );
+  };
+
   const handleCreateFolder = (e: React.FormEvent) => {
     e.preventDefault();
     if (newFolderName.trim()) {
@@ -76,7 +115,7 @@ export const VocabTab: React.FC<VocabTabProps> = ({
       try {
         const json = JSON.parse(event.target?.result as string);
         if (json.vocabulary && Array.isArray(json.vocabulary)) {
-          onImport(json.vocabulary, json.folders || []);
+          setImportPlan(planImport(vocabulary, folders, json.vocabulary, Array.isArray(json.folders) ? json.folders : []));
         } else {
           alert("Invalid file format: Missing vocabulary data.");
         }
@@ -123,6 +162,16 @@ export const VocabTab: React.FC<VocabTabProps> = ({
              </div>
           </div>
 
+          <button
+             onClick={() => setEditingCardId(card.id)}
+             className="text-gray-300 hover:text-thai-600 p-1"
+             title="Edit"
+          >
+             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+             </svg>
+          </button>
+
           <button
              onClick={() => onDelete(card.id)}
              className="text-gray-300 hover:text-red-500 p-1"
@@ -137,7 +186,7 @@ export const VocabTab: React.FC<VocabTabProps> = ({
        <div className="flex justify-between items-start">
           <div className="flex-1">
              <div className="flex items-center gap-3 mb-1">
-                <h3 className="text-xl font-bold text-thai-700 font-thai">{card.thai}</h3>
+                <h3 className="text-xl font-bold text-thai-700 font-thai"><ToneText text={card.thai} colored={toneColors} /></h3>
                 <AudioPlayer text={card.thai} size="sm" />
                 {/* Show folder badge if in search mode */}
                 {searchTerm && (
@@ -146,21 +195,57 @@ export const VocabTab: React.FC<VocabTabProps> = ({
                     </span>
                 )}
              </div>
-             <p className="text-sm text-thai-500 font-medium mb-2">{card.transliteration}</p>
-             <p className="text-gray-800 font-medium border-t border-dashed border-gray-200 pt-2 mt-2">{card.english}</p>
-             
-             {card.exampleThai && (
-               <div className="mt-3 bg-gray-50 p-3 rounded-lg text-sm">
-                  <p className="font-thai text-gray-700 mb-1 flex items-center gap-2">
-                    {card.exampleThai}
-                    <AudioPlayer text={card.exampleThai} size="sm" />
-                  </p>
-                  <p className="text-gray-500 italic">{card.exampleEnglish}</p>
-               </div>
+             <p className="text-sm text-thai-500 font-medium mb-2">{cardTransliteration(card, romanization)}</p>
+             {card.classifier && (
+               <p className="text-xs text-gray-500 mb-2">
+                 <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mr-1.5">Classifier</span>
+                 <span className="font-thai font-bold text-amber-700">{card.classifier}</span>
+                 <span className="text-gray-300 mx-1.5">·</span>
+                 <span className="font-thai">{countPhrase(card.thai, card.classifier)}</span>
+                 <span className="italic text-gray-400 ml-1.5">{romanize(countPhrase(card.thai, card.classifier), romanization)}</span>
+               </p>
+             )}
+             <button
+               onClick={() => setAnatomyCardId(anatomyCardId === card.id ? null : card.id)}
+               className={`text-[10px] font-bold uppercase tracking-wider transition-colors ${anatomyCardId === card.id ? 'text-thai-600' : 'text-gray-300 hover:text-thai-600'}`}
+             >
+               {anatomyCardId === card.id ? 'Hide syllables' : 'Syllables'}
+             </button>
+             {anatomyCardId === card.id && (
+               <SyllableAnatomyPanel thai={card.thai} romanization={romanization} toneColors={toneColors} />
              )}
+             {card.senses && card.senses.length > 0 ? (
+               <ol className="border-t border-dashed border-gray-200 pt-2 mt-2 space-y-1.5">
+                 {card.senses.map((sense, idx) => (
+                   <li key={idx} className="text-sm">
+                     <div className="flex items-baseline gap-1.5 flex-wrap">
+                       <span className="text-xs font-bold text-gray-300">{idx + 1}.</span>
+                       <span className="text-gray-800 font-medium">{sense.definition}</span>
+                       {sense.partOfSpeech && (
+                         <span className="text-[9px] text-gray-400 bg-gray-100 px-1.5 py-0.5 rounded uppercase font-bold">{sense.partOfSpeech}</span>
+                       )}
+                       {sense.register !== 'neutral' && (
+                         <span className="text-[9px] text-purple-600 bg-purple-50 px-1.5 py-0.5 rounded uppercase font-bold">{sense.register}</span>
+                       )}
+                     </div>
+                     {sense.exampleThai && (
+                       <p className="text-xs text-gray-500 ml-4">
+                         <span className="font-thai">{sense.exampleThai}</span>
+                         {sense.exampleEnglish && <span className="italic text-gray-400"> · {sense.exampleEnglish}</span>}
+                       </p>
+                     )}
+                   </li>
+                 ))}
+               </ol>
+             ) : (
+               <p className="text-gray-800 font-medium border-t border-dashed border-gray-200 pt-2 mt-2">{card.english}</p>
+             )}
+             
+             <CardExamples card={card} onUpdateCard={onUpdateCard} speechProfile={speechProfile} toneColors={toneColors} />
           </div>
        </div>
        <div className="mt-2 text-xs text-gray-300 text-right">
+          {card.schedule && <span className="mr-2">Review {dueLabel(card)} ·</span>}
           {new Date(card.dateAdded).toLocaleDateString()}
        </div>
     </div>
@@ -170,7 +255,7 @@ export const VocabTab: React.FC<VocabTabProps> = ({
   const filteredCards = vocabulary.filter(c => 
     c.thai.toLowerCase().includes(searchTerm.toLowerCase()) ||
     c.english.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    c.transliteration.toLowerCase().includes(searchTerm.toLowerCase())
+    cardTransliteration(c, romanization).toLowerCase().includes(searchTerm.toLowerCase())
   );
 
   // Folder View Logic
@@ -178,9 +263,57 @@ export const VocabTab: React.FC<VocabTabProps> = ({
   const folderName = viewFolderId === 'GENERAL' ? 'General' : folders.find(f => f.id === viewFolderId)?.name || 'Unknown';
   const currentFolderCards = vocabulary.filter(c => c.folderId === targetFolderId);
 
+  const editingCard = vocabulary.find(c => c.id === editingCardId);
+
+  // Study the folder's due cards, or all of them in random order when none are due
+  const startStudy = () => {
+    const due = dueCards(currentFolderCards);
+    const cards = due.length > 0 ? due : [...currentFolderCards].sort(() => Math.random() - 0.5);
+    setStudyCardIds(cards.map(c => c.id));
+  };
+
+  if (studyCardIds && viewFolderId !== 'ROOT') {
+    return (
+      <div className="max-w-2xl mx-auto pb-10">
+        <FlashcardStudy
+          title={folderName}
+          cardIds={studyCardIds}
+          vocabulary={vocabulary}
+          front={studyFront}
+          onFrontChange={onStudyFrontChange}
+          onUpdateCard={onUpdateCard}
+          onClose={() => setStudyCardIds(null)}
+          romanization={romanization}
+          toneColors={toneColors}
+          isActive={isActive}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-2xl mx-auto space-y-6 pb-40"> {/* Extra padding bottom for fixed search bar */}
       
+      {importPlan && (
+        <ImportDialog
+          plan={importPlan}
+          onConfirm={(resolutions) => onImport(importPlan, resolutions)}
+          onClose={() => setImportPlan(null)}
+        />
+      )}
+
+      {editingCard && (
+        <CardEditor
+          key={editingCard.id}
+          card={editingCard}
+          folders={folders}
+          onUpdateCard={onUpdateCard}
+          onClose={() => setEditingCardId(null)}
+          speechProfile={speechProfile}
+          romanization={romanization}
+        />
+      )}
+
       {/* Hidden Import Input */}
       <input 
         type="file" 
@@ -287,6 +420,7 @@ export const VocabTab: React.FC<VocabTabProps> = ({
                         </div>
                         <h3 className="font-bold text-gray-800 text-lg">General</h3>
                         <p className="text-sm text-gray-400 mt-1">{getCount(undefined)} words</p>
+                        {renderDueBadge(undefined)}
                     </div>
 
                     {/* User Folders */}
@@ -312,6 +446,7 @@ export const VocabTab: React.FC<VocabTabProps> = ({
                         </div>
                         <h3 className="font-bold text-gray-800 truncate w-full px-2 text-lg">{folder.name}</h3>
                         <p className="text-sm text-gray-400 mt-1">{getCount(folder.id)} words</p>
+                        {renderDueBadge(folder.id)}
                     </div>
                     ))}
                 </div>
@@ -331,10 +466,18 @@ export const VocabTab: React.FC<VocabTabProps> = ({
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
                     </svg>
                     </button>
-                    <div>
+                    <div className="flex-1">
                     <h2 className="text-2xl font-bold text-gray-800">{folderName}</h2>
-                    <p className="text-sm text-gray-500">{currentFolderCards.length} cards</p>
+                    <p className="text-sm text-gray-500">{currentFolderCards.length} cards · {getDueCount(targetFolderId)} due</p>
                     </div>
+                    {currentFolderCards.length > 0 && (
+                      <button
+                        onClick={startStudy}
+                        className="bg-thai-600 text-white hover:bg-thai-700 px-4 py-2 rounded-xl font-medium text-sm transition-all shadow-sm"
+                      >
+                        {getDueCount(targetFolderId) > 0 ? 'Study due' : 'Study all'}
+                      </button>
+                    )}
                 </div>
 
                 {currentFolderCards.length === 0 ? (
@@ -378,6 +521,9 @@ export const VocabTab: React.FC<VocabTabProps> = ({
                         </div>
                     )}
                 </div>
+                <div className="mt-2">
+                    <ThaiInputTools value={searchTerm} onChange={setSearchTerm} vocabulary={vocabulary} />
+                </div>
             </div>
           </div>
       </div>
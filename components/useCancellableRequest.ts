@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isAbortError } from '../services/abortable';
+import { TranslationError, toTranslationError } from '../services/translationErrors';
+
+// One on-demand model request at a time for a component: starting another cancels the
+// previous one, and unmounting cancels whatever is still running. Failures are logged
+// under `label` and kept in `error`; cancellations are not errors.
+export const useCancellableRequest = (label: string) => {
+  const abortRef = useRef<AbortController | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<TranslationError | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Resolves with the result, or undefined when the request failed or was cancelled
+  const run = useCallback(async <T>(request: (signal: AbortSignal) => Promise<T>): Promise<T | undefined> => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setIsRunning(true);
+    setError(null);
+    try {
+      const result = await request(controller.signal);
+      return controller.signal.aborted ? undefined : result;
+    } catch (err) {
+      if (isAbortError(err) || controller.signal.aborted) return undefined;
+      console.warn(`${label} failed`, err);
+      setError(toTranslationError(err));
+      return undefined;
+    } finally {
+      if (abortRef.current === controller) setIsRunning(false);
+    }
+  }, [label]);
+
+  return { run, isRunning, error };
+};
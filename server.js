@@ -0,0 +1,452 @@
+import http from 'node:http';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { GoogleGenAI } from '@google/genai';
+import {
+  ANALYSIS_SCHEMA, ENRICHMENT_SCHEMA, EXAMPLES_SCHEMA, EXAMPLE_LEVEL_DESCRIPTIONS, GRAMMAR_SCHEMA, MAX_ENRICH_WORDS, OCR_PROMPT,
+  OCR_SCHEMA, REVISION_SCHEMA, SENSES_SCHEMA, analyzePrompt, definePrompt, enrichPrompt, examplesPrompt, grammarPrompt, revisePrompt,
+  translatePrompt,
+} from './services/prompts.js'; // Shared with the browser's Gemini provider
+
+// Small production server:
+// - serves the built app from dist/
+// - exposes the /api/* model endpoints (see ROUTES) so the Gemini key stays server-side
+// - rate limits each client and caches responses in memory
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DIST_DIR = path.join(__dirname, 'dist');
+
+const PORT = Number(process.env.PORT) || 3000;
+const API_KEY = process.env.API_KEY || process.env.GEMINI_API_KEY;
+const MODEL = 'gemini-2.5-flash';
+
+const RATE_LIMIT_MAX = Number(process.env.RATE_LIMIT_MAX) || 30;             // requests per window
+const RATE_LIMIT_WINDOW_MS = Number(process.env.RATE_LIMIT_WINDOW_MS) || 60_000;
+const CACHE_TTL_MS = Number(process.env.CACHE_TTL_MS) || 24 * 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = Number(process.env.CACHE_MAX_ENTRIES) || 500;
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_IMAGE_BODY_BYTES = 8 * 1024 * 1024; // Photos for /api/ocr
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '';                      // e.g. https://user.github.io
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+
+if (!API_KEY) {
+  console.warn('API_KEY is not set: /api/analyze and /api/synonyms will fail.');
+}
+
+const ai = API_KEY ? new GoogleGenAI({ apiKey: API_KEY }) : null;
+
+const isThai = (text) => /[\u0E00-\u0E7F]/.test(text);
+
+class HttpError extends Error {
+  constructor(status, message, headers = {}) {
+    super(message);
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+// --- Rate limiting (fixed window per client) ---
+
+const rateBuckets = new Map();
+
+const getClientId = (req) => {
+  if (TRUST_PROXY) {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (typeof forwarded === 'string' && forwarded) return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+// Returns the number of seconds to wait, or 0 if the request is allowed
+const checkRateLimit = (clientId) => {
+  const now = Date.now();
+  const bucket = rateBuckets.get(clientId);
+  if (!bucket || now >= bucket.resetAt) {
+    rateBuckets.set(clientId, { count: 1, resetAt: now + RATE_LIMIT_WINDOW_MS });
+    return 0;
+  }
+  if (bucket.count >= RATE_LIMIT_MAX) {
+    return Math.ceil((bucket.resetAt - now) / 1000);
+  }
+  bucket.count++;
+  return 0;
+};
+
+// Drop expired buckets so memory doesn't grow with every client ever seen
+setInterval(() => {
+  const now = Date.now();
+  for (const [clientId, bucket] of rateBuckets) {
+    if (now >= bucket.resetAt) rateBuckets.delete(clientId);
+  }
+}, RATE_LIMIT_WINDOW_MS).unref();
+
+// --- Response cache (TTL + LRU by insertion order) ---
+
+const cache = new Map();
+
+const cacheGet = (key) => {
+  const entry = cache.get(key);
+  if (!entry) return undefined;
+  if (Date.now() > entry.expiresAt) {
+    cache.delete(key);
+    return undefined;
+  }
+  // Refresh recency
+  cache.delete(key);
+  cache.set(key, entry);
+  return entry.value;
+};
+
+const cacheSet = (key, value) => {
+  cache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+  while (cache.size > CACHE_MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value);
+  }
+};
+
+// --- Model calls (mirror services/providers/geminiProvider.ts) ---
+
+// `signal` aborts the upstream call when the client goes away
+const generateJson = async (contents, config, signal) => {
+  if (!ai) throw new HttpError(503, 'Server is missing API_KEY');
+  let response;
+  try {
+    response = await ai.models.generateContent({
+      model: MODEL,
+      contents,
+      config: { responseMimeType: 'application/json', abortSignal: signal, ...config },
+    });
+  } catch (error) {
+    // Statuses the client maps to typed errors (see services/translationErrors.ts)
+    if (error.status === 429) throw new HttpError(429, 'Upstream quota exceeded');
+    if (error.status === 401 || error.status === 403) throw new HttpError(503, 'Server API_KEY was rejected');
+    throw error;
+  }
+
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || finishReason === 'SAFETY') {
+    throw new HttpError(422, `Blocked by safety filters (${blockReason || finishReason})`);
+  }
+
+  try {
+    return JSON.parse(response.text || 'null');
+  } catch {
+    throw new HttpError(502, 'Model returned invalid JSON');
+  }
+};
+
+const googleTranslate = async (text, signal) => {
+  const thaiInput = isThai(text);
+  const params = new URLSearchParams();
+  params.append('client', 'gtx');
+  params.append('sl', 'auto');
+  params.append('tl', thaiInput ? 'en' : 'th');
+  params.append('dt', 't');
+  params.append('dt', 'rm');
+  params.append('q', text);
+
+  const response = await fetch(`https://translate.googleapis.com/translate_a/single?${params.toString()}`, { signal });
+  if (!response.ok) throw new Error(`Translation API failed with status ${response.status}`);
+
+  const data = await response.json();
+  const translationParts = data[0] || [];
+  const translatedText = translationParts.map((part) => part[0]).filter((t) => t).join('');
+  const lastPart = translationParts[translationParts.length - 1];
+  const transliteration = (lastPart && lastPart[thaiInput ? 3 : 2]) || '';
+
+  return { translatedText: translatedText || 'Translation failed', transliteration };
+};
+
+const translate = async ({ text, profile }, signal) => {
+  try {
+    // Server-side requests are not subject to browser CORS, so Google usually works here
+    return await googleTranslate(text, signal);
+  } catch (error) {
+    if (signal.aborted) throw error;
+    console.warn('Google Translate failed, falling back to Gemini', error);
+    const parsed = await generateJson(translatePrompt(text, profile), {}, signal);
+    if (!parsed || typeof parsed.translatedText !== 'string') {
+      throw new HttpError(502, 'Model returned invalid JSON (no translatedText)');
+    }
+    return { translatedText: parsed.translatedText, transliteration: parsed.transliteration || '' };
+  }
+};
+
+const analyze = async ({ original, translated, profile }, signal) => {
+  const parsed = await generateJson(analyzePrompt(original, translated, profile), { responseSchema: ANALYSIS_SCHEMA }, signal);
+
+  // Full checks and repairs happen client-side (services/responseValidation.ts)
+  if (!parsed || !Array.isArray(parsed.segments)) throw new HttpError(502, 'Model returned invalid JSON (no segments)');
+  return parsed;
+};
+
+const ENRICH_BATCH_SIZE = 10;
+
+const enrichBatch = async (segments, offset, signal) => {
+  const data = await generateJson(enrichPrompt(segments.map((s) => s.thai), offset), { responseSchema: ENRICHMENT_SCHEMA }, signal);
+  if (!Array.isArray(data)) throw new HttpError(502, 'Model returned invalid JSON (not a list)');
+  return data;
+};
+
+// Synonyms, antonyms, related words and collocations, matched back by segment index
+const synonyms = async ({ segments }, signal) => {
+  const batches = [];
+  for (let offset = 0; offset < segments.length; offset += ENRICH_BATCH_SIZE) {
+    batches.push(enrichBatch(segments.slice(offset, offset + ENRICH_BATCH_SIZE), offset, signal));
+  }
+  const byIndex = new Map((await Promise.all(batches)).flat().map((entry) => [Number(entry && entry.index), entry]));
+
+  const list = (value) => (Array.isArray(value) ? value : []);
+  return segments.map((segment, idx) => {
+    const match = byIndex.get(idx) || {};
+    return {
+      ...segment,
+      synonyms: list(match.synonyms),
+      antonyms: list(match.antonyms),
+      relatedWords: list(match.relatedWords),
+      collocations: list(match.collocations),
+    };
+  });
+};
+
+// New example sentences for a flashcard, one per requested level
+const examples = async ({ thai, english, levels, avoid, profile }, signal) => {
+  const data = await generateJson(examplesPrompt({ thai, english, levels, avoid }, profile), { responseSchema: EXAMPLES_SCHEMA }, signal);
+  if (!Array.isArray(data)) throw new HttpError(502, 'Model returned invalid JSON (not a list)');
+  return data;
+};
+
+// Dictionary senses of a word; `context` is the text it was found in, if any
+const define = async ({ word, context }, signal) => {
+  const data = await generateJson(definePrompt(word, context), { responseSchema: SENSES_SCHEMA }, signal);
+  if (!Array.isArray(data)) throw new HttpError(502, 'Model returned invalid JSON (not a list)');
+  return data;
+};
+
+// Grammar of a sentence, with each point linked to the breakdown words it covers
+const grammar = async ({ thai, english, words }, signal) => {
+  const data = await generateJson(grammarPrompt(thai, english, words), { responseSchema: GRAMMAR_SCHEMA }, signal);
+  if (!data || typeof data.structure !== 'string') throw new HttpError(502, 'Model returned invalid JSON (no structure)');
+  return data;
+};
+
+// Thai text lines in a photo, with where each one is
+const ocr = async ({ image }, signal) => {
+  const data = await generateJson(
+    [{ role: 'user', parts: [{ inlineData: { mimeType: image.mimeType, data: image.data } }, { text: OCR_PROMPT }] }],
+    { responseSchema: OCR_SCHEMA },
+    signal
+  );
+  if (!data || !Array.isArray(data.lines)) throw new HttpError(502, 'Model returned invalid JSON (no lines)');
+  return data;
+};
+
+// Corrections for a saved card: romanization, gloss, part of speech, classifier and examples
+const revise = async ({ card, profile }, signal) => {
+  const data = await generateJson(revisePrompt(card, profile), { responseSchema: REVISION_SCHEMA }, signal);
+  if (!data || typeof data.transliteration !== 'string') throw new HttpError(502, 'Model returned invalid JSON (no transliteration)');
+  return data;
+};
+
+// --- Routing ---
+
+const isNonEmptyString = (value) => typeof value === 'string' && value.trim().length > 0;
+
+const ROUTES = {
+  '/api/translate': {
+    handler: translate,
+    validate: (body) => isNonEmptyString(body.text),
+  },
+  '/api/analyze': {
+    handler: analyze,
+    validate: (body) => isNonEmptyString(body.original) && typeof body.translated === 'string',
+  },
+  '/api/synonyms': {
+    handler: synonyms,
+    validate: (body) => Array.isArray(body.segments) && body.segments.length <= MAX_ENRICH_WORDS
+      && body.segments.every((s) => s && typeof s.thai === 'string'),
+  },
+  '/api/examples': {
+    handler: examples,
+    validate: (body) => isNonEmptyString(body.thai)
+      && Array.isArray(body.levels) && body.levels.length > 0 && body.levels.every((level) => Object.hasOwn(EXAMPLE_LEVEL_DESCRIPTIONS, level)),
+  },
+  '/api/define': {
+    handler: define,
+    validate: (body) => isNonEmptyString(body.word) && (body.context === undefined || typeof body.context === 'string'),
+  },
+  '/api/ocr': {
+    handler: ocr,
+    maxBodyBytes: MAX_IMAGE_BODY_BYTES,
+    validate: (body) => !!body.image && isNonEmptyString(body.image.data) && /^image\//.test(body.image.mimeType || ''),
+  },
+  '/api/revise': {
+    handler: revise,
+    validate: (body) => !!body.card && isNonEmptyString(body.card.thai)
+      && (body.card.examples === undefined || Array.isArray(body.card.examples)),
+  },
+  '/api/grammar': {
+    handler: grammar,
+    validate: (body) => isNonEmptyString(body.thai)
+      && Array.isArray(body.words) && body.words.length > 0 && body.words.every((word) => typeof word === 'string'),
+  },
+};
+
+const readJsonBody = (req, maxBytes = MAX_BODY_BYTES) => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks = [];
+  req.on('data', (chunk) => {
+    size += chunk.length;
+    if (size > maxBytes) {
+      // Stop reading; the connection is closed once the 413 has been sent
+      req.removeAllListeners('data');
+      req.pause();
+      reject(new HttpError(413, 'Request body too large', { Connection: 'close' }));
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+    } catch {
+      reject(new HttpError(400, 'Invalid JSON body'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const sendJson = (res, status, payload, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(payload));
+};
+
+const setCorsHeaders = (req, res) => {
+  if (!ALLOWED_ORIGIN) return;
+  const origin = req.headers.origin;
+  if (ALLOWED_ORIGIN === '*' || origin === ALLOWED_ORIGIN) {
+    res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN === '*' ? '*' : origin);
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Vary', 'Origin');
+  }
+};
+
+const handleApi = async (req, res, route) => {
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: 'Method not allowed' }, { Allow: 'POST' });
+    return;
+  }
+
+  const retryAfter = checkRateLimit(getClientId(req));
+  if (retryAfter > 0) {
+    sendJson(res, 429, { error: 'Too many requests' }, { 'Retry-After': String(retryAfter) });
+    return;
+  }
+
+  const body = await readJsonBody(req, route.maxBodyBytes);
+  if (!body || typeof body !== 'object' || !route.validate(body)) {
+    throw new HttpError(400, 'Invalid request body');
+  }
+
+  // Hashed, so large bodies (photos) don't sit in memory as cache keys
+  const cacheKey = `${req.url}:${crypto.createHash('sha256').update(JSON.stringify(body)).digest('hex')}`;
+  const cached = cacheGet(cacheKey);
+  if (cached !== undefined) {
+    sendJson(res, 200, cached, { 'X-Cache': 'HIT' });
+    return;
+  }
+
+  // Stop the upstream work if the client disconnects or cancels first
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  const result = await route.handler(body, controller.signal);
+  cacheSet(cacheKey, result);
+  sendJson(res, 200, result, { 'X-Cache': 'MISS' });
+};
+
+// --- Static files ---
+
+const MIME_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+};
+
+const serveStatic = (req, res) => {
+  let urlPath;
+  try {
+    urlPath = decodeURIComponent(new URL(req.url, 'http://localhost').pathname);
+  } catch {
+    throw new HttpError(400, 'Malformed URL');
+  }
+  let filePath = path.join(DIST_DIR, urlPath);
+
+  // Block path traversal outside dist/ (including siblings such as dist-old/)
+  const relative = path.relative(DIST_DIR, filePath);
+  if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    sendJson(res, 403, { error: 'Forbidden' });
+    return;
+  }
+
+  if (!fs.existsSync(filePath) || fs.statSync(filePath).isDirectory()) {
+    // Single page app: unknown paths fall back to index.html
+    filePath = path.join(DIST_DIR, 'index.html');
+  }
+
+  if (!fs.existsSync(filePath)) {
+    res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end('Not found. Run `npm run build` first.');
+    return;
+  }
+
+  res.writeHead(200, { 'Content-Type': MIME_TYPES[path.extname(filePath)] || 'application/octet-stream' });
+  fs.createReadStream(filePath).pipe(res);
+};
+
+const server = http.createServer(async (req, res) => {
+  setCorsHeaders(req, res);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const pathname = new URL(req.url, 'http://localhost').pathname;
+  const route = ROUTES[pathname];
+
+  try {
+    if (route) {
+      await handleApi(req, res, route);
+    } else if (req.method === 'GET' || req.method === 'HEAD') {
+      serveStatic(req, res);
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+    }
+  } catch (error) {
+    if (res.destroyed) return; // Client went away, nobody to answer
+    const status = error instanceof HttpError ? error.status : 502;
+    if (!(error instanceof HttpError)) console.error(`${pathname} failed`, error);
+    if (!res.headersSent) {
+      if (error instanceof HttpError) sendJson(res, status, { error: error.message }, error.headers);
+      else sendJson(res, status, { error: 'Upstream request failed' });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`TukTuk Thai server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,41 @@
+// Helpers for cancelling pipeline steps: user cancellation arrives through an
+// AbortSignal, and every provider attempt also gets its own timeout.
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export const isTimeoutError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'TimeoutError';
+
+// A signal that aborts when `parent` does, or with a TimeoutError after `ms`.
+// Call `clear` once the work settles so the timer doesn't outlive it.
+export const withTimeout = (parent: AbortSignal | undefined, ms: number, label: string) => {
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(new DOMException('The operation was aborted', 'AbortError'));
+
+  if (parent?.aborted) onParentAbort();
+  else parent?.addEventListener('abort', onParentAbort, { once: true });
+
+  const timer = setTimeout(
+    () => controller.abort(new DOMException(`${label} timed out after ${ms / 1000}s`, 'TimeoutError')),
+    ms
+  );
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+};
+
+// Rejects as soon as `signal` aborts, for SDK calls that may ignore the signal
+export const raceAbort = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
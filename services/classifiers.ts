@@ -0,0 +1,11 @@
+// Thai classifiers (ลักษณนาม): nouns are counted as noun + number + classifier,
+// e.g. แมว 2 ตัว "two cats".
+
+// Frequent classifiers, used as quiz distractors when the deck has too few of its own
+export const COMMON_CLASSIFIERS = [
+  'ตัว', 'คน', 'อัน', 'ใบ', 'เล่ม', 'คัน', 'หลัง', 'ลูก', 'แห่ง', 'ชิ้น',
+  'แก้ว', 'จาน', 'เครื่อง', 'ลำ', 'คู่', 'เรื่อง', 'ห้อง', 'ข้อ', 'บาน', 'สาย',
+];
+
+// Sample counting phrase shown next to a noun
+export const countPhrase = (thai: string, classifier: string, count = 2) => `${thai} ${count} ${classifier}`;
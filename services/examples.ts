@@ -0,0 +1,24 @@
+import { ExampleLevel, ExampleSentence, VocabCard } from "../types";
+import { EXAMPLE_LEVEL_DESCRIPTIONS } from "./prompts";
+
+// Leveled example sentences on flashcards
+
+export const EXAMPLE_LEVELS: { id: ExampleLevel; label: string; description: string }[] = [
+  { id: 'beginner', label: 'Beginner', description: EXAMPLE_LEVEL_DESCRIPTIONS.beginner },
+  { id: 'intermediate', label: 'Intermediate', description: EXAMPLE_LEVEL_DESCRIPTIONS.intermediate },
+  { id: 'advanced', label: 'Advanced', description: EXAMPLE_LEVEL_DESCRIPTIONS.advanced },
+];
+
+export const newExampleId = () => Date.now().toString() + Math.random().toString(36).slice(2, 8);
+
+// Moves a card's legacy single example into `examples`. Examples still being written
+// when the app was closed never arrived, so they are marked failed.
+export const migrateCard = (saved: VocabCard): VocabCard => {
+  const card: VocabCard = saved.exampleStatus === 'generating' ? { ...saved, exampleStatus: 'failed' } : saved;
+  if (card.examples || !card.exampleThai) return card;
+  const { exampleThai, exampleEnglish, ...rest } = card;
+  return {
+    ...rest,
+    examples: [{ id: newExampleId(), thai: exampleThai, english: exampleEnglish || '', level: 'beginner' }],
+  };
+};
@@ -0,0 +1,69 @@
+import { GrammarAnalysis, GrammarPoint, GrammarPointKind, Segment } from "../types";
+
+// Common Thai function words and what they do, for the offline Grammar section.
+// Only exact segment matches count, so content words that contain them are left alone.
+
+interface GrammarMarker {
+  kind: GrammarPointKind;
+  explanation: string;
+}
+
+const MARKERS: Record<string, GrammarMarker> = {
+  'ไหม': { kind: 'question', explanation: 'Turns a statement into a yes/no question. It goes at the end of the sentence.' },
+  'มั้ย': { kind: 'question', explanation: 'Spoken form of ไหม: turns a statement into a yes/no question.' },
+  'เปล่า': { kind: 'question', explanation: 'In หรือเปล่า ("or not?"), asks a yes/no question at the end of the sentence.' },
+  'หรือยัง': { kind: 'question', explanation: 'Asks whether something has happened yet ("... yet?"), at the end of the sentence.' },
+  'อะไร': { kind: 'question', explanation: 'Question word "what". It stays where the answer would go, usually after the verb.' },
+  'ใคร': { kind: 'question', explanation: 'Question word "who". It stays where the answer would go.' },
+  'ไหน': { kind: 'question', explanation: 'Question word "which / where", usually after a noun or in ที่ไหน.' },
+  'ที่ไหน': { kind: 'question', explanation: 'Question word "where", placed after the verb.' },
+  'เมื่อไหร่': { kind: 'question', explanation: 'Question word "when", usually at the end of the sentence.' },
+  'ทำไม': { kind: 'question', explanation: 'Question word "why", at the start or end of the sentence.' },
+  'ยังไง': { kind: 'question', explanation: 'Question word "how" (spoken), placed after the verb.' },
+  'อย่างไร': { kind: 'question', explanation: 'Question word "how" (formal), placed after the verb.' },
+  'เท่าไหร่': { kind: 'question', explanation: 'Question word "how much / how many", placed after the noun or verb.' },
+  'ไม่': { kind: 'negation', explanation: 'Negates the verb or adjective that follows it ("not").' },
+  'ไม่ได้': { kind: 'negation', explanation: 'Negates an action that did not happen, or denies a statement ("did not / was not").' },
+  'อย่า': { kind: 'negation', explanation: 'Negative command "don\'t", placed before the verb.' },
+  'กำลัง': { kind: 'aspect', explanation: 'Progressive marker before the verb: the action is happening now ("-ing").' },
+  'อยู่': { kind: 'aspect', explanation: 'After a verb, marks an ongoing action or state ("-ing"); on its own it means "to be at".' },
+  'แล้ว': { kind: 'aspect', explanation: 'Marks a completed action or a change of state ("already / now"). It can also link actions ("and then").' },
+  'จะ': { kind: 'aspect', explanation: 'Future or intention marker before the verb ("will / going to").' },
+  'เคย': { kind: 'aspect', explanation: 'Experience marker before the verb ("have ever / used to").' },
+  'ยัง': { kind: 'aspect', explanation: 'Before a verb means "still"; with ไม่ (ยังไม่) means "not yet".' },
+  'เพิ่ง': { kind: 'aspect', explanation: 'Marks something that happened very recently ("just").' },
+  'นะ': { kind: 'particle', explanation: 'Softening particle at the end of a sentence: makes a statement or request friendlier, or asks for agreement.' },
+  'สิ': { kind: 'particle', explanation: 'Sentence-final particle that urges or insists ("go on / of course").' },
+  'เถอะ': { kind: 'particle', explanation: 'Sentence-final particle for suggestions ("let\'s").' },
+  'ล่ะ': { kind: 'particle', explanation: 'Sentence-final particle that shifts the topic or asks "what about ...?".' },
+  'ครับ': { kind: 'politeness', explanation: 'Polite particle used by male speakers, at the end of a sentence.' },
+  'ค่ะ': { kind: 'politeness', explanation: 'Polite particle used by female speakers at the end of statements.' },
+  'คะ': { kind: 'politeness', explanation: 'Polite particle used by female speakers at the end of questions.' },
+};
+
+// Explains the markers found in the segments, one point per marker word
+export const explainMarkers = (segments: Segment[]): GrammarAnalysis => {
+  const points = new Map<string, GrammarPoint>();
+  segments.forEach((segment, idx) => {
+    const word = segment.thai.trim();
+    const marker = MARKERS[word];
+    if (!marker) return;
+    const point = points.get(word);
+    if (point) {
+      point.segmentIndices.push(idx);
+    } else {
+      points.set(word, { kind: marker.kind, title: word, explanation: marker.explanation, segmentIndices: [idx] });
+    }
+  });
+
+  const list = [...points.values()];
+  const isQuestion = list.some(p => p.kind === 'question');
+  const isNegative = list.some(p => p.kind === 'negation');
+  const type = isQuestion ? (isNegative ? 'Negative question' : 'Question') : (isNegative ? 'Negative statement' : 'Statement');
+
+  return {
+    structure: `${type}: Thai keeps the Subject + Verb + Object order, and markers go around the verb or at the end.`,
+    points: list,
+    isOffline: true,
+  };
+};
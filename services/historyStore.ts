@@ -0,0 +1,55 @@
+import { HistoryEntry, TranslationResult } from "../types";
+import { normalizeCacheKey } from "./translationCache";
+
+// Translation history persisted in LocalStorage, newest first.
+
+const STORAGE_KEY = 'thaiMasterHistory';
+const MAX_UNPINNED = 100;
+
+export const loadHistory = (): HistoryEntry[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    const data = JSON.parse(saved);
+    return Array.isArray(data) ? data : [];
+  } catch (e) {
+    console.error("Error parsing history data", e);
+    return [];
+  }
+};
+
+export const saveHistory = (entries: HistoryEntry[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+};
+
+// Adds (or refreshes) a lookup at the top of the history, keeping its pinned state.
+// Unpinned entries beyond MAX_UNPINNED are dropped, pinned ones are always kept.
+export const recordInHistory = (entries: HistoryEntry[], result: TranslationResult): HistoryEntry[] => {
+  const key = normalizeCacheKey(result.originalText);
+  const existing = entries.find(e => normalizeCacheKey(e.result.originalText) === key);
+
+  const entry: HistoryEntry = {
+    id: existing?.id || Date.now().toString() + Math.random().toString(),
+    result,
+    timestamp: Date.now(),
+    pinned: existing?.pinned,
+  };
+
+  let unpinnedCount = entry.pinned ? 0 : 1;
+  const rest = entries
+    .filter(e => e !== existing)
+    .filter(e => e.pinned || ++unpinnedCount <= MAX_UNPINNED);
+
+  return [entry, ...rest];
+};
+
+export const searchHistory = (entries: HistoryEntry[], query: string): HistoryEntry[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return entries;
+  return entries.filter(({ result }) =>
+    result.originalText.toLowerCase().includes(q) ||
+    result.translatedText.toLowerCase().includes(q) ||
+    result.transliteration.toLowerCase().includes(q) ||
+    result.segments.some(s => s.thai.includes(q) || s.english.toLowerCase().includes(q))
+  );
+};
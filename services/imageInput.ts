@@ -0,0 +1,30 @@
+import { ImageInput } from "../types";
+
+// Photos are scaled down before upload: text stays legible and the request stays small
+const MAX_IMAGE_SIDE = 1600;
+const JPEG_QUALITY = 0.85;
+
+const loadImage = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Couldn't read that image"));
+  img.src = url;
+});
+
+// Reads a picked photo as a JPEG for the model, plus a data URL for showing it
+export const readImageFile = async (file: File): Promise<{ image: ImageInput; url: string }> => {
+  const sourceUrl = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(sourceUrl);
+    const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+    canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+    const url = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+    return { image: { mimeType: 'image/jpeg', data: url.slice(url.indexOf(',') + 1) }, url };
+  } finally {
+    URL.revokeObjectURL(sourceUrl);
+  }
+};
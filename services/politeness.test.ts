@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { matchSpeakerGender } from './politeness';
+
+const male = { gender: 'male', register: 'polite' } as const;
+const female = { gender: 'female', register: 'polite' } as const;
+
+describe('matchSpeakerGender', () => {
+  it('gives a male speaker ครับ and ผม', () => {
+    expect(matchSpeakerGender('ดิฉันชื่อแพมค่ะ', male)).toBe('ผมชื่อแพมครับ');
+    expect(matchSpeakerGender('ไปไหนคะ', male)).toBe('ไปไหนครับ');
+  });
+
+  it('gives a female speaker ค่ะ or คะ and ฉัน', () => {
+    expect(matchSpeakerGender('ผมชื่อทอมครับ', female)).toBe('ฉันชื่อทอมค่ะ');
+    expect(matchSpeakerGender('กินข้าวหรือยังครับ', female)).toBe('กินข้าวหรือยังคะ');
+    expect(matchSpeakerGender('ครับผม', female)).toBe('ค่ะ');
+  });
+
+  it('uses ดิฉัน for a female speaker in the formal register', () => {
+    expect(matchSpeakerGender('ผมขอบคุณครับ', { gender: 'female', register: 'formal' })).toBe('ดิฉันขอบคุณค่ะ');
+  });
+
+  it('leaves ผม meaning "hair" alone', () => {
+    expect(matchSpeakerGender('ผมไปตัดผมครับ', female)).toBe('ฉันไปตัดผมค่ะ');
+    expect(matchSpeakerGender('เธอมีผมยาว', female)).toBe('เธอมีผมยาว');
+  });
+
+  it('keeps words that contain a particle', () => {
+    expect(matchSpeakerGender('คะแนนดีค่ะ', male)).toBe('คะแนนดีครับ');
+  });
+
+  it('changes nothing for an unspecified speaker', () => {
+    expect(matchSpeakerGender('ผมชื่อทอมครับ', { gender: 'unspecified', register: 'polite' })).toBe('ผมชื่อทอมครับ');
+  });
+});
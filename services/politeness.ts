@@ -0,0 +1,54 @@
+import { Register, SpeakerGender, SpeechProfile } from "../types";
+import { REGISTER_DESCRIPTIONS } from "./prompts";
+
+// Speaker gender and register for Thai output. Prompts ask the model for the
+// right particles and pronouns, and matchSpeakerGender corrects whatever still comes
+// back with the wrong ones (Google Translate ignores the profile entirely).
+
+export const REGISTERS: { id: Register; label: string; description: string }[] = [
+  { id: 'casual', label: 'Casual', description: REGISTER_DESCRIPTIONS.casual },
+  { id: 'polite', label: 'Polite', description: REGISTER_DESCRIPTIONS.polite },
+  { id: 'formal', label: 'Formal', description: REGISTER_DESCRIPTIONS.formal },
+];
+
+export const SPEAKER_GENDERS: { id: SpeakerGender; label: string }[] = [
+  { id: 'male', label: 'Male' },
+  { id: 'female', label: 'Female' },
+  { id: 'unspecified', label: 'Not set' },
+];
+
+export const DEFAULT_SPEECH_PROFILE: SpeechProfile = { gender: 'unspecified', register: 'polite' };
+
+export const sameProfile = (a?: SpeechProfile, b?: SpeechProfile) =>
+  a?.gender === b?.gender && a?.register === b?.register;
+
+// A particle ends a clause: it is followed by a non-Thai character or the end of the text.
+// This keeps words such as คะแนน ("score") intact.
+const CLAUSE_END = '(?![\\u0E00-\\u0E7F])';
+
+// Question words that make a female speaker's final particle คะ rather than ค่ะ
+const QUESTION_BEFORE = '(ไหม|มั้ย|หรือยัง|หรือ|เปล่า|อะไร|ไหน|เท่าไร|เท่าไหร่|ทำไม|ยังไง|อย่างไร|เมื่อไร|เมื่อไหร่|ใคร|บ้าง|ล่ะ|นะ)';
+
+// ผม is also "hair": it is left alone after words such as ตัด ("cut") and before ones such as ยาว ("long")
+const HAIR_BEFORE = '(ตัด|สระ|หวี|ทำ|ย้อม|เส้น|ดัด|มัด|ถัก|ปลาย|เป่า|สี|ทรง)';
+const HAIR_AFTER = '(ยาว|สั้น|ร่วง|หงอก|หยิก|เปีย|ม้า)';
+const PRONOUN_PHOM = new RegExp(`(?<!${HAIR_BEFORE})ผม(?!${HAIR_AFTER})`, 'g');
+
+// Swaps gendered polite particles and first-person pronouns to match the speaker: ดิฉัน becomes
+// ผม for a male speaker, and ผม becomes ฉัน (ดิฉัน in the formal register) for a female one.
+// ฉัน is left alone, since men use it too. 'unspecified' leaves the text unchanged.
+export const matchSpeakerGender = (thai: string, profile: SpeechProfile): string => {
+  if (profile.gender === 'male') {
+    return thai
+      .replace(new RegExp(`(ค่ะ|คะ)${CLAUSE_END}`, 'g'), 'ครับ')
+      .replace(/ดิฉัน/g, 'ผม');
+  }
+  if (profile.gender === 'female') {
+    return thai
+      .replace(new RegExp(`${QUESTION_BEFORE}\\s*ครับ(ผม)?${CLAUSE_END}`, 'g'), '$1คะ')
+      .replace(new RegExp(`ครับ(ผม)?(?=\\s*\\?)`, 'g'), 'คะ')
+      .replace(new RegExp(`ครับ(ผม)?${CLAUSE_END}`, 'g'), 'ค่ะ')
+      .replace(PRONOUN_PHOM, profile.register === 'formal' ? 'ดิฉัน' : 'ฉัน');
+  }
+  return thai;
+};
@@ -0,0 +1,27 @@
+import type { Schema } from "@google/genai";
+import type { CardRevisionRequest, ExampleLevel, ExampleRequest, Register, SpeechProfile } from "../types";
+
+// Types for prompts.js
+
+export declare const MAX_ENRICH_WORDS: number;
+
+export declare const REGISTER_DESCRIPTIONS: Record<Register, string>;
+export declare const EXAMPLE_LEVEL_DESCRIPTIONS: Record<ExampleLevel, string>;
+export declare const speechInstructions: (profile: SpeechProfile) => string;
+
+export declare const translatePrompt: (text: string, profile?: SpeechProfile) => string;
+export declare const analyzePrompt: (original: string, translated: string, profile: SpeechProfile) => string;
+export declare const enrichPrompt: (words: string[], offset: number) => string;
+export declare const examplesPrompt: (request: ExampleRequest, profile: SpeechProfile) => string;
+export declare const definePrompt: (word: string, context: string) => string;
+export declare const grammarPrompt: (thai: string, english: string, words: string[]) => string;
+export declare const OCR_PROMPT: string;
+export declare const revisePrompt: (card: CardRevisionRequest, profile: SpeechProfile) => string;
+
+export declare const ANALYSIS_SCHEMA: Schema;
+export declare const ENRICHMENT_SCHEMA: Schema;
+export declare const EXAMPLES_SCHEMA: Schema;
+export declare const SENSES_SCHEMA: Schema;
+export declare const GRAMMAR_SCHEMA: Schema;
+export declare const OCR_SCHEMA: Schema;
+export declare const REVISION_SCHEMA: Schema;
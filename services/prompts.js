@@ -0,0 +1,282 @@
+import { Type } from '@google/genai';
+
+// Gemini prompts and response schemas, shared by services/providers/geminiProvider.ts in the
+// browser and by server.js, so both ask the model the same thing. Plain JavaScript so that
+// server.js can import it without a build step; types are in prompts.d.ts.
+
+// Words per /api/synonyms request. The server answers in batches of ten, so this bounds how
+// many model calls one rate-limited request can start; the proxy provider splits longer lists.
+export const MAX_ENRICH_WORDS = 50;
+
+// --- Speaker gender and register ---
+
+export const REGISTER_DESCRIPTIONS = {
+  casual: 'between friends and family; polite particles are optional',
+  polite: 'everyday polite speech with polite particles',
+  formal: 'formal speech for official, business or written contexts',
+};
+
+const GENDER_INSTRUCTIONS = {
+  male: 'The speaker is male: use the particle ครับ and the pronoun ผม, never ค่ะ/คะ.',
+  female: 'The speaker is female: use the particles ค่ะ (statements) and คะ (questions) and the pronoun ฉัน or ดิฉัน, never ครับ.',
+  unspecified: "The speaker's gender is unknown: avoid gendered particles and pronouns where natural.",
+};
+
+// Instruction appended to prompts that produce Thai. Unknown or missing values (the server
+// gets them from request bodies) fall back to an unspecified speaker in the polite register.
+export const speechInstructions = (profile) => {
+  const gender = profile && Object.hasOwn(GENDER_INSTRUCTIONS, profile.gender) ? profile.gender : 'unspecified';
+  const register = profile && Object.hasOwn(REGISTER_DESCRIPTIONS, profile.register) ? profile.register : 'polite';
+  return `${GENDER_INSTRUCTIONS[gender]} Use a ${register} register (${REGISTER_DESCRIPTIONS[register]}).`;
+};
+
+export const EXAMPLE_LEVEL_DESCRIPTIONS = {
+  beginner: 'a short, simple sentence with everyday words',
+  intermediate: 'a natural sentence of moderate length',
+  advanced: 'a longer sentence with richer vocabulary or a subordinate clause',
+};
+
+const isThai = (text) => /[\u0E00-\u0E7F]/.test(text);
+
+// --- Prompts ---
+
+// Thai gets the speaker's particles and register; English does not need them
+export const translatePrompt = (text, profile) => {
+  const toThai = !isThai(text);
+  const speech = toThai && profile ? ` ${speechInstructions(profile)}` : '';
+  return `Translate to ${toThai ? 'Thai' : 'English'}.${speech} Return JSON: { "translatedText": "...", "transliteration": "..." }\n\n${text}`;
+};
+
+// Asks for the literal dictionary meaning first, so learners see what each word means on its own
+export const analyzePrompt = (original, translated, profile) => `
+    Context: Input "${original}", Translation "${translated}".
+    1. Segment the Thai text (source or translation) into individual words.
+    2. For each segment provide:
+       - Thai word
+       - Transliteration
+       - English meaning: MUST provide the primary literal dictionary definition FIRST. If the word has a different meaning in this specific context, include it after in parentheses. Example: for 'ตรง' (in 'straight on time'), return 'straight (context: on time)'.
+       - Part of Speech.
+       - Classifier: for nouns, the classifier (ลักษณนาม) used to count it, e.g. 'ตัว' for 'แมว'. Empty for other parts of speech.
+    3. Generate ONE simple example sentence using the main keyword.
+    4. IMPORTANT: If the original transliteration was missing, ensure segments have accurate transliteration.
+    5. registerVariants: the Thai text said in each register (casual, polite, formal), with a short English note on when to use it.
+    ${speechInstructions(profile)} Apply this to the example sentence and the register variants.
+  `;
+
+// Words are numbered by their position in the whole text, so repeated words stay apart
+export const enrichPrompt = (words, offset) => `
+    For each numbered Thai word below provide:
+    - synonyms: 2-3 Thai synonyms
+    - antonyms: up to 2 Thai antonyms (empty if there are none)
+    - relatedWords: 2-3 related Thai words (same topic or word family)
+    - collocations: 2-3 common short Thai phrases using the word
+    Return a JSON array with one object per word, with its number as "index".
+
+    ${words.map((word, idx) => `${offset + idx}. ${word}`).join('\n')}
+  `;
+
+export const examplesPrompt = ({ thai, english, levels, avoid }, profile) => {
+  const levelList = levels.map((level, idx) => `${idx + 1}. ${level}: ${EXAMPLE_LEVEL_DESCRIPTIONS[level]}`).join('\n');
+  const avoidList = Array.isArray(avoid) && avoid.length > 0 ? `Do not repeat these sentences:\n${avoid.join('\n')}` : '';
+  return `
+    Write Thai example sentences using "${thai}" (meaning: "${english || ''}"), one for each level below, in order.
+    Give each sentence's English translation and its level.
+    ${speechInstructions(profile)}
+
+    ${levelList}
+
+    ${avoidList}
+  `;
+};
+
+// `context` is the text the word was found in, if any
+export const definePrompt = (word, context) => {
+  const inContext = context ? `Set matchesContext to true only for the sense "${word}" has in: "${context}".` : '';
+  return `
+    List the distinct dictionary senses of the Thai word "${word}", most common first (at most 5).
+    For each sense give:
+    - partOfSpeech
+    - definition: a short English gloss, without notes in parentheses
+    - register: neutral, casual, formal, slang or literary
+    - a short Thai example sentence using the word in this sense, with its English translation
+    ${inContext}
+  `;
+};
+
+// `words` are the breakdown's words in order; points refer back to them by number
+export const grammarPrompt = (thai, english, words) => `
+    Explain the grammar of this Thai sentence to a learner.
+    Thai: "${thai}"
+    English: "${english || ''}"
+    1. structure: the sentence pattern, e.g. "Subject + Verb + Object + ไหม (yes/no question)".
+    2. points: one per grammar feature. Explain every particle (such as ไหม, แล้ว, กำลัง, นะ) and mark each question, negation and aspect (tense) marker.
+       - kind: question, negation, aspect, particle, politeness or other
+       - title: the Thai word or pattern
+       - explanation: one or two short sentences in English
+       - segmentIndices: the numbers of the words below that the point covers
+    Words:
+    ${words.map((word, idx) => `${idx}. ${word}`).join('\n')}
+  `;
+
+export const OCR_PROMPT = `
+    Extract every line of Thai text in this photo (a sign, menu, label or page), top to bottom.
+    For each line give the text exactly as written and its bounding box as [ymin, xmin, ymax, xmax] on a 0-1000 scale.
+    Keep prices and numbers that belong to a line. Skip text that is not Thai. Return { "lines": [] } if there is none.
+  `;
+
+export const revisePrompt = (card, profile) => {
+  const exampleList = (Array.isArray(card.examples) ? card.examples : [])
+    .map((e, idx) => `${idx + 1}. (${e.level}) ${e.thai} = ${e.english}`)
+    .join('\n');
+  return `
+    Check this Thai flashcard for a learner and return a corrected version of each field.
+    Thai: "${card.thai}"
+    Transliteration: "${card.transliteration || ''}"
+    English: "${card.english || ''}"
+    Part of speech: "${card.partOfSpeech || ''}"
+    Classifier: "${card.classifier || ''}"
+    Example sentences:
+    ${exampleList || '(none)'}
+
+    - transliteration: an accurate romanization of the Thai
+    - english: a short, accurate English gloss; keep the current one if it is right
+    - partOfSpeech
+    - classifier: the counting word if the word is a noun that takes one, otherwise empty
+    - examples: the example sentences above with mistakes fixed, same order and levels;
+      if there are none, write one beginner and one intermediate sentence using the word
+    ${speechInstructions(profile)}
+  `;
+};
+
+// --- Response schemas ---
+
+const wordList = { type: Type.ARRAY, items: { type: Type.STRING } };
+
+const exampleSchema = {
+  type: Type.OBJECT,
+  properties: {
+    level: { type: Type.STRING, enum: ['beginner', 'intermediate', 'advanced'] },
+    thai: { type: Type.STRING },
+    english: { type: Type.STRING },
+  },
+  required: ['level', 'thai', 'english'],
+};
+
+export const ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          thai: { type: Type.STRING },
+          transliteration: { type: Type.STRING },
+          english: { type: Type.STRING },
+          partOfSpeech: { type: Type.STRING },
+          classifier: { type: Type.STRING },
+        },
+        required: ['thai', 'transliteration', 'english', 'partOfSpeech'],
+      },
+    },
+    exampleSentenceThai: { type: Type.STRING },
+    exampleSentenceEnglish: { type: Type.STRING },
+    registerVariants: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          register: { type: Type.STRING, enum: ['casual', 'polite', 'formal'] },
+          thai: { type: Type.STRING },
+          english: { type: Type.STRING },
+        },
+        required: ['register', 'thai', 'english'],
+      },
+    },
+  },
+  required: ['segments', 'exampleSentenceThai', 'exampleSentenceEnglish'],
+};
+
+export const ENRICHMENT_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      index: { type: Type.INTEGER },
+      synonyms: wordList,
+      antonyms: wordList,
+      relatedWords: wordList,
+      collocations: wordList,
+    },
+    required: ['index', 'synonyms', 'antonyms', 'relatedWords', 'collocations'],
+  },
+};
+
+export const EXAMPLES_SCHEMA = { type: Type.ARRAY, items: exampleSchema };
+
+export const SENSES_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      partOfSpeech: { type: Type.STRING },
+      definition: { type: Type.STRING },
+      register: { type: Type.STRING, enum: ['neutral', 'casual', 'formal', 'slang', 'literary'] },
+      exampleThai: { type: Type.STRING },
+      exampleEnglish: { type: Type.STRING },
+      matchesContext: { type: Type.BOOLEAN },
+    },
+    required: ['partOfSpeech', 'definition', 'register', 'exampleThai', 'exampleEnglish'],
+  },
+};
+
+export const GRAMMAR_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    structure: { type: Type.STRING },
+    points: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: ['question', 'negation', 'aspect', 'particle', 'politeness', 'other'] },
+          title: { type: Type.STRING },
+          explanation: { type: Type.STRING },
+          segmentIndices: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+        },
+        required: ['kind', 'title', 'explanation', 'segmentIndices'],
+      },
+    },
+  },
+  required: ['structure', 'points'],
+};
+
+export const OCR_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    lines: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          box: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+        },
+        required: ['text', 'box'],
+      },
+    },
+  },
+  required: ['lines'],
+};
+
+export const REVISION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    transliteration: { type: Type.STRING },
+    english: { type: Type.STRING },
+    partOfSpeech: { type: Type.STRING },
+    classifier: { type: Type.STRING },
+    examples: { type: Type.ARRAY, items: exampleSchema },
+  },
+  required: ['transliteration', 'english', 'partOfSpeech', 'classifier', 'examples'],
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { examplesPrompt, speechInstructions, translatePrompt } from './prompts';
+
+describe('speechInstructions', () => {
+  it('names the particles and register for the speaker', () => {
+    const text = speechInstructions({ gender: 'female', register: 'formal' });
+    expect(text).toContain('ค่ะ');
+    expect(text).toContain('formal register');
+  });
+
+  it('falls back to an unspecified, polite speaker for unknown values', () => {
+    const text = speechInstructions({ gender: 'toString', register: 'shouty' } as never);
+    expect(text).toBe(speechInstructions({ gender: 'unspecified', register: 'polite' }));
+  });
+});
+
+describe('prompts', () => {
+  it('adds speech instructions only when translating into Thai', () => {
+    const profile = { gender: 'male', register: 'polite' } as const;
+    expect(translatePrompt('hello', profile)).toContain('ครับ');
+    expect(translatePrompt('สวัสดี', profile)).not.toContain('ครับ');
+  });
+
+  it('describes each requested example level', () => {
+    const prompt = examplesPrompt({ thai: 'กิน', english: 'eat', levels: ['beginner', 'advanced'], avoid: [] }, { gender: 'unspecified', register: 'casual' });
+    expect(prompt).toContain('1. beginner: a short, simple sentence');
+    expect(prompt).toContain('2. advanced: a longer sentence');
+    expect(prompt).not.toContain('Do not repeat');
+  });
+});
@@ -0,0 +1,153 @@
+import { FinishReason, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { CardRevision, CardRevisionRequest, ExampleRequest, GeneratedExample, GrammarAnalysis, ImageInput, OcrLine, QuickTranslation, Segment, SpeechProfile, TextAnalysis, WordSense } from "../../types";
+import type { TranslationProvider } from "../translationProvider";
+import { TranslationError } from "../translationErrors";
+import { DEFAULT_SPEECH_PROFILE } from "../politeness";
+import { ANALYSIS_SCHEMA, ENRICHMENT_SCHEMA, EXAMPLES_SCHEMA, GRAMMAR_SCHEMA, OCR_PROMPT, OCR_SCHEMA, REVISION_SCHEMA, SENSES_SCHEMA, analyzePrompt, definePrompt, enrichPrompt, examplesPrompt, grammarPrompt, revisePrompt, translatePrompt } from "../prompts";
+import { WordEnrichment, validateCardRevision, validateEnrichmentList, validateExampleList, validateGrammarAnalysis, validateOcrLines, validateQuickTranslation, validateSenseList, validateTextAnalysis } from "../responseValidation";
+
+const MODEL = "gemini-2.5-flash";
+
+const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+// Prompts and schemas live in services/prompts.js, which server.js shares.
+
+// Parses the JSON body of a response, telling safety blocks and unreadable output apart.
+// The result is untrusted: callers check it with services/responseValidation.ts.
+const readJson = (response: GenerateContentResponse): unknown => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || finishReason === FinishReason.SAFETY) {
+    throw new TranslationError('safety', `Gemini blocked the request (${blockReason || finishReason})`);
+  }
+
+  const text = response.text;
+  if (!text) throw new TranslationError('malformed', 'Gemini returned an empty response');
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new TranslationError('malformed', 'Gemini returned invalid JSON', error);
+  }
+};
+
+const translate = async (text: string, signal?: AbortSignal, profile?: SpeechProfile): Promise<QuickTranslation> => {
+  const response = await getClient().models.generateContent({
+    model: MODEL,
+    contents: translatePrompt(text, profile),
+    config: { responseMimeType: "application/json", abortSignal: signal }
+  });
+
+  return validateQuickTranslation(readJson(response));
+};
+
+// Deeper analysis for segments and examples
+const analyze = async (original: string, translated: string, signal?: AbortSignal, profile: SpeechProfile = DEFAULT_SPEECH_PROFILE): Promise<TextAnalysis> => {
+  const response = await getClient().models.generateContent({
+    model: MODEL,
+    contents: analyzePrompt(original, translated, profile),
+    config: { responseMimeType: "application/json", abortSignal: signal, responseSchema: ANALYSIS_SCHEMA },
+  });
+
+  return validateTextAnalysis(readJson(response));
+};
+
+// Words per enrichment request, so long texts are covered without oversized replies
+const ENRICH_BATCH_SIZE = 10;
+
+const enrichBatch = async (segments: Segment[], offset: number, signal?: AbortSignal): Promise<WordEnrichment[]> => {
+    const response = await getClient().models.generateContent({
+        model: MODEL,
+        contents: enrichPrompt(segments.map(s => s.thai), offset),
+        config: { responseMimeType: "application/json", abortSignal: signal, responseSchema: ENRICHMENT_SCHEMA }
+    });
+
+    return validateEnrichmentList(readJson(response));
+};
+
+// Enrich with synonyms, antonyms, related words and collocations, in parallel batches
+const enrich = async (segments: Segment[], signal?: AbortSignal): Promise<Segment[]> => {
+    const batches: Promise<WordEnrichment[]>[] = [];
+    for (let offset = 0; offset < segments.length; offset += ENRICH_BATCH_SIZE) {
+        batches.push(enrichBatch(segments.slice(offset, offset + ENRICH_BATCH_SIZE), offset, signal));
+    }
+    const byIndex = new Map((await Promise.all(batches)).flat().map(entry => [entry.index, entry]));
+
+    // Merge back into segments by position
+    return segments.map((segment, idx) => {
+        const match = byIndex.get(idx);
+        return {
+            ...segment,
+            synonyms: match?.synonyms || [],
+            antonyms: match?.antonyms || [],
+            relatedWords: match?.relatedWords || [],
+            collocations: match?.collocations || [],
+        };
+    });
+};
+
+// New example sentences for a card, one per requested level
+const examples = async (request: ExampleRequest, signal?: AbortSignal, profile: SpeechProfile = DEFAULT_SPEECH_PROFILE): Promise<GeneratedExample[]> => {
+  const response = await getClient().models.generateContent({
+    model: MODEL,
+    contents: examplesPrompt(request, profile),
+    config: { responseMimeType: "application/json", abortSignal: signal, responseSchema: EXAMPLES_SCHEMA },
+  });
+
+  return validateExampleList(readJson(response), request.levels);
+};
+
+// Dictionary senses of a word; `context` is the text it was found in, if any
+const define = async (word: string, context: string, signal?: AbortSignal): Promise<WordSense[]> => {
+  const response = await getClient().models.generateContent({
+    model: MODEL,
+    contents: definePrompt(word, context),
+    config: { responseMimeType: "application/json", abortSignal: signal, responseSchema: SENSES_SCHEMA },
+  });
+
+  return validateSenseList(readJson(response));
+};
+
+// Grammar of a sentence, with each point linked to the breakdown segments it covers
+const grammar = async (thai: string, english: string, segments: Segment[], signal?: AbortSignal): Promise<GrammarAnalysis> => {
+  const response = await getClient().models.generateContent({
+    model: MODEL,
+    contents: grammarPrompt(thai, english, segments.map(s => s.thai)),
+    config: { responseMimeType: "application/json", abortSignal: signal, responseSchema: GRAMMAR_SCHEMA },
+  });
+
+  return validateGrammarAnalysis(readJson(response), segments.length);
+};
+
+// Thai text lines in a photo, with where each one is
+const ocr = async (image: ImageInput, signal?: AbortSignal): Promise<OcrLine[]> => {
+  const response = await getClient().models.generateContent({
+    model: MODEL,
+    contents: [{ role: "user", parts: [{ inlineData: { mimeType: image.mimeType, data: image.data } }, { text: OCR_PROMPT }] }],
+    config: { responseMimeType: "application/json", abortSignal: signal, responseSchema: OCR_SCHEMA },
+  });
+
+  return validateOcrLines(readJson(response));
+};
+
+// Corrections for a saved card: romanization, gloss, part of speech, classifier and examples
+const revise = async (card: CardRevisionRequest, signal?: AbortSignal, profile: SpeechProfile = DEFAULT_SPEECH_PROFILE): Promise<CardRevision> => {
+  const response = await getClient().models.generateContent({
+    model: MODEL,
+    contents: revisePrompt(card, profile),
+    config: { responseMimeType: "application/json", abortSignal: signal, responseSchema: REVISION_SCHEMA },
+  });
+
+  return validateCardRevision(readJson(response));
+};
+
+export const geminiProvider: TranslationProvider = {
+  id: 'gemini',
+  translate,
+  analyze,
+  enrich,
+  examples,
+  define,
+  grammar,
+  ocr,
+  revise,
+};
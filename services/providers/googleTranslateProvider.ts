@@ -0,0 +1,68 @@
+import { QuickTranslation } from "../../types";
+import type { TranslationProvider } from "../translationProvider";
+import { errorForStatus } from "../translationErrors";
+
+// FAST Translation using Google Translate API (Direct)
+const translate = async (text: string, signal?: AbortSignal): Promise<QuickTranslation> => {
+  const isThaiInput = /[\u0E00-\u0E7F]/.test(text);
+  const sourceLang = 'auto';
+  const targetLang = isThaiInput ? 'en' : 'th';
+
+  // Direct URL for client-side usage.
+  // Note: This may be subject to CORS restrictions on some hosting platforms.
+  // The next provider in the chain keeps the app functional if this fails.
+  const baseUrl = 'https://translate.googleapis.com/translate_a/single';
+
+  const params = new URLSearchParams();
+  params.append('client', 'gtx');
+  params.append('sl', sourceLang);
+  params.append('tl', targetLang);
+  params.append('dt', 't');  // Translation
+  params.append('dt', 'rm'); // Romanization/Transliteration
+  params.append('q', text);
+
+  const response = await fetch(`${baseUrl}?${params.toString()}`, { signal });
+
+  if (!response.ok) throw errorForStatus(response.status, `Translation API failed with status ${response.status}`);
+
+  const data = await response.json();
+
+  // Data structure from Google API is a nested array:
+  const translationParts = data[0];
+  let translatedText = "";
+  let transliteration = "";
+
+  // 1. Construct full translation
+  if (translationParts && translationParts.length > 0) {
+      translatedText = translationParts
+          .map((part: any) => part[0])
+          .filter((t: any) => t)
+          .join("");
+  }
+
+  // 2. Extract Transliteration
+  const lastPart = translationParts[translationParts.length - 1];
+
+  if (isThaiInput) {
+      // If input is Thai, we want Romanization of the INPUT (usually index 3)
+      if (lastPart && lastPart.length >= 3 && lastPart[3]) {
+          transliteration = lastPart[3];
+      }
+  } else {
+      // If input is English, target is Thai. We want Romanization of the OUTPUT (usually index 2)
+      if (lastPart && lastPart.length >= 3 && lastPart[2]) {
+           transliteration = lastPart[2];
+      }
+  }
+
+  return {
+    translatedText: translatedText || "Translation failed",
+    transliteration: transliteration || "",
+  };
+};
+
+// Google Translate only offers plain translation, analysis is left to other providers
+export const googleTranslateProvider: TranslationProvider = {
+  id: 'google',
+  translate,
+};
@@ -0,0 +1,48 @@
+import { GrammarAnalysis, Segment, TextAnalysis, WordSense } from "../../types";
+import type { TranslationProvider } from "../translationProvider";
+import { segmentThai } from "../thaiSegmenter";
+import { lookupWord } from "../thaiLexicon";
+import { explainMarkers } from "../grammarMarkers";
+import { TranslationError } from "../translationErrors";
+
+// Offline analysis from the bundled dictionary. Always the last link of the
+// analyze, define and grammar chains, so the Breakdown still works when every remote provider fails.
+
+const glossSegment = (segment: Segment): Segment => {
+  const entry = lookupWord(segment.thai);
+  return {
+    ...segment,
+    english: entry?.english || '(unknown)',
+    partOfSpeech: entry?.partOfSpeech || 'unknown',
+    ...(entry?.classifier ? { classifier: entry.classifier } : {}),
+  };
+};
+
+const analyze = async (original: string, translated: string): Promise<TextAnalysis> => {
+  const thaiText = /[\u0E00-\u0E7F]/.test(original) ? original : translated;
+  return {
+    segments: segmentThai(thaiText).map(glossSegment),
+    exampleSentenceThai: '',
+    exampleSentenceEnglish: '',
+    isOffline: true,
+  };
+};
+
+// The bundled dictionary has one sense per word, without examples. Words it lacks throw, so the
+// chain reports why the remote providers failed instead of "no senses".
+const define = async (word: string): Promise<WordSense[]> => {
+  const entry = lookupWord(word);
+  if (!entry) throw new TranslationError('unknown', `"${word}" is not in the offline dictionary`);
+  return [{ partOfSpeech: entry.partOfSpeech, definition: entry.english, register: 'neutral', exampleThai: '', exampleEnglish: '' }];
+};
+
+// Known particles and markers only; no sentence-specific explanation
+const grammar = async (thai: string, english: string, segments: Segment[]): Promise<GrammarAnalysis> =>
+  explainMarkers(segments);
+
+export const localProvider: TranslationProvider = {
+  id: 'local',
+  analyze,
+  define,
+  grammar,
+};
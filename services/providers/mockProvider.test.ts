@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { analyzeText, enrichSegments, extractImageText, generateExamples, lookupSenses, quickTranslate, reviseCard } from '../geminiService';
+import { getProviderChain } from '../translationProvider';
+import { VocabCard } from '../../types';
+
+// The whole pipeline with TRANSLATION_PROVIDERS=mock, as `npm run dev` runs it offline
+describe('mock provider chain', () => {
+  const fetchSpy = vi.fn(() => Promise.reject(new TypeError('Failed to fetch')));
+
+  beforeEach(() => {
+    vi.stubEnv('TRANSLATION_PROVIDERS', 'mock');
+    vi.stubEnv('API_PROXY_URL', '');
+    vi.stubGlobal('fetch', fetchSpy);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    fetchSpy.mockClear();
+  });
+
+  it('uses only offline providers', () => {
+    expect(getProviderChain().map(p => p.id)).toEqual(['mock', 'local']);
+  });
+
+  it('translates Thai to English word by word, without particles', async () => {
+    const result = await quickTranslate('ผมกินข้าวครับ');
+    expect(result).toEqual({ translatedText: 'I eat rice', transliteration: 'phom kin khao khrap' });
+  });
+
+  it('translates English words and phrases to Thai', async () => {
+    expect(await quickTranslate('thank you')).toEqual({ translatedText: 'ขอบคุณ', transliteration: 'khop khun' });
+    expect(await quickTranslate('eat rice')).toEqual({ translatedText: 'กินข้าว', transliteration: 'kin khao' });
+    expect((await quickTranslate('spaceship')).translatedText).toBe('[mock] spaceship');
+  });
+
+  it("matches the speaker's pronoun in Thai output", async () => {
+    expect((await quickTranslate('I', undefined, { gender: 'female', register: 'polite' })).translatedText).toBe('ฉัน');
+    expect((await quickTranslate('I', undefined, { gender: 'female', register: 'formal' })).translatedText).toBe('ดิฉัน');
+  });
+
+  it('breaks Thai text into glossed segments', async () => {
+    const analysis = await analyzeText('แมวกินข้าว', 'The cat eats rice');
+    expect(analysis.segments.map(s => [s.thai, s.english, s.classifier])).toEqual([
+      ['แมว', 'cat', 'ตัว'],
+      ['กิน', 'eat', undefined],
+      ['ข้าว', 'rice', 'จาน'],
+    ]);
+    expect(analysis.exampleSentenceThai).toBe('ฉันชอบคำว่าแมว');
+    expect(analysis.isOffline).toBeUndefined();
+  });
+
+  it('analyzes the Thai side of an English search', async () => {
+    const analysis = await analyzeText('eat rice', 'กินข้าว');
+    expect(analysis.segments.map(s => s.thai)).toEqual(['กิน', 'ข้าว']);
+  });
+
+  it('marks words it does not know', async () => {
+    const analysis = await analyzeText('กินส้มตำ', '');
+    expect(analysis.segments[1]).toMatchObject({ thai: 'ส้มตำ', english: '(unknown)', partOfSpeech: 'unknown' });
+  });
+
+  it('enriches segments from the lexicon', async () => {
+    const [segment] = await enrichSegments([{ thai: 'ไป', transliteration: 'pai', english: 'go', partOfSpeech: 'verb' }]);
+    expect(segment).toMatchObject({ antonyms: ['มา'], collocations: ['ไปไหน'], synonyms: [], relatedWords: [] });
+  });
+
+  it('generates one example per level, avoiding ones already on the card', async () => {
+    const examples = await generateExamples({
+      thai: 'แมว',
+      english: 'cat',
+      levels: ['beginner', 'advanced'],
+      avoid: ['ฉันชอบคำว่าแมว'],
+    });
+    expect(examples.map(e => [e.level, e.thai])).toEqual([
+      ['beginner', 'นี่คือคำว่าแมว'],
+      ['advanced', 'ถึงแม้ว่าคำว่าแมวจะใช้บ่อย แต่หลายคนก็ยังใช้ผิด'],
+    ]);
+    expect(new Set(examples.map(e => e.id)).size).toBe(2);
+  });
+
+  it('looks up every sense of a word', async () => {
+    const senses = await lookupSenses('ดี', 'อาหารดี');
+    expect(senses.map(s => [s.partOfSpeech, s.definition])).toEqual([['adjective', 'good'], ['adverb', 'well']]);
+  });
+
+  it('proposes card corrections from the lexicon', async () => {
+    const card: VocabCard = {
+      id: '1',
+      thai: 'หมา',
+      transliteration: 'maa',
+      english: 'dog',
+      dateAdded: 0,
+    };
+    const revision = await reviseCard(card);
+    expect(revision).toMatchObject({ transliteration: 'ma', english: 'dog', partOfSpeech: 'noun', classifier: 'ตัว' });
+    expect(revision.examples.map(e => e.level)).toEqual(['beginner', 'intermediate']);
+  });
+
+  it('reads the sample menu from any photo and glosses each line', async () => {
+    const lines = await extractImageText({ data: 'AAAA', mimeType: 'image/jpeg' });
+    expect(lines.map(l => l.text)).toEqual(['ข้าว', 'น้ำ', 'อร่อยมาก']);
+    lines.forEach(({ region }) => {
+      expect(region).toBeDefined();
+      if (!region) return;
+      expect(region.x + region.width).toBeLessThanOrEqual(1);
+      expect(region.y + region.height).toBeLessThanOrEqual(1);
+    });
+
+    // Each line goes through the same steps as a paragraph-mode sentence
+    const glosses = await Promise.all(lines.map(async line => {
+      const basic = await quickTranslate(line.text);
+      const details = await analyzeText(line.text, basic.translatedText);
+      return [basic.translatedText, details.segments.map(s => s.thai)];
+    }));
+    expect(glosses).toEqual([
+      ['rice', ['ข้าว']],
+      ['water', ['น้ำ']],
+      ['delicious very', ['อร่อย', 'มาก']],
+    ]);
+  });
+
+  it('never touches the network', async () => {
+    await quickTranslate('สวัสดีครับ');
+    await analyzeText('สวัสดีครับ', 'hello');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
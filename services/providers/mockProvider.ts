@@ -0,0 +1,201 @@
+import { CardRevision, CardRevisionRequest, ExampleLevel, ExampleRequest, GeneratedExample, OcrLine, QuickTranslation, Segment, TextAnalysis, WordSense } from "../../types";
+import type { TranslationProvider } from "../translationProvider";
+import { createDictionary, segmentWords } from "../thaiSegmenter";
+
+// Deterministic offline provider: no network, no API key.
+// Useful for local development and for exercising the UI in tests.
+
+interface MockEntry {
+  thai: string;
+  transliteration: string;
+  english: string;
+  partOfSpeech: string;
+  classifier?: string;
+  synonyms?: string[];
+  antonyms?: string[];
+  relatedWords?: string[];
+  collocations?: string[];
+  senses?: WordSense[]; // Extra senses beyond the main gloss
+}
+
+const LEXICON: MockEntry[] = [
+  { thai: 'สวัสดี', transliteration: 'sawatdi', english: 'hello', partOfSpeech: 'interjection', synonyms: ['หวัดดี'] },
+  { thai: 'ครับ', transliteration: 'khrap', english: 'polite particle (male speaker)', partOfSpeech: 'particle' },
+  { thai: 'ค่ะ', transliteration: 'kha', english: 'polite particle (female speaker)', partOfSpeech: 'particle' },
+  { thai: 'ขอบคุณ', transliteration: 'khop khun', english: 'thank you', partOfSpeech: 'verb', synonyms: ['ขอบใจ'] },
+  { thai: 'สบายดี', transliteration: 'sabai di', english: 'fine', partOfSpeech: 'adjective', synonyms: ['ดี'] },
+  { thai: 'ไหม', transliteration: 'mai', english: 'question particle', partOfSpeech: 'particle' },
+  { thai: 'ไม่', transliteration: 'mai', english: 'not', partOfSpeech: 'adverb' },
+  { thai: 'ใช่', transliteration: 'chai', english: 'yes', partOfSpeech: 'adverb' },
+  { thai: 'ผม', transliteration: 'phom', english: 'I (male speaker)', partOfSpeech: 'pronoun', synonyms: ['ฉัน'] },
+  { thai: 'ฉัน', transliteration: 'chan', english: 'I', partOfSpeech: 'pronoun', synonyms: ['ผม', 'ดิฉัน'] },
+  { thai: 'คุณ', transliteration: 'khun', english: 'you', partOfSpeech: 'pronoun', synonyms: ['เธอ'] },
+  { thai: 'ชื่อ', transliteration: 'chue', english: 'name', partOfSpeech: 'noun', synonyms: ['นาม'],
+    senses: [{ partOfSpeech: 'verb', definition: 'to be called', register: 'neutral', exampleThai: 'ผมชื่อสมชาย', exampleEnglish: 'My name is Somchai.' }] },
+  { thai: 'อะไร', transliteration: 'arai', english: 'what', partOfSpeech: 'pronoun' },
+  { thai: 'กิน', transliteration: 'kin', english: 'eat', partOfSpeech: 'verb', synonyms: ['ทาน', 'รับประทาน'], relatedWords: ['อาหาร', 'ดื่ม'], collocations: ['กินข้าว'] },
+  { thai: 'ข้าว', transliteration: 'khao', english: 'rice', partOfSpeech: 'noun', classifier: 'จาน', relatedWords: ['อาหาร'], collocations: ['กินข้าว', 'ข้าวผัด'] },
+  { thai: 'น้ำ', transliteration: 'nam', english: 'water', partOfSpeech: 'noun', classifier: 'แก้ว' },
+  { thai: 'ไป', transliteration: 'pai', english: 'go', partOfSpeech: 'verb', antonyms: ['มา'], collocations: ['ไปไหน'] },
+  { thai: 'ที่ไหน', transliteration: 'thi nai', english: 'where', partOfSpeech: 'adverb' },
+  { thai: 'รัก', transliteration: 'rak', english: 'love', partOfSpeech: 'verb', synonyms: ['ชอบ'], antonyms: ['เกลียด'] },
+  { thai: 'ชอบ', transliteration: 'chop', english: 'like', partOfSpeech: 'verb', synonyms: ['รัก'] },
+  { thai: 'แมว', transliteration: 'maeo', english: 'cat', partOfSpeech: 'noun', classifier: 'ตัว', relatedWords: ['หมา', 'สัตว์'] },
+  { thai: 'หมา', transliteration: 'ma', english: 'dog', partOfSpeech: 'noun', classifier: 'ตัว', synonyms: ['สุนัข'] },
+  { thai: 'อร่อย', transliteration: 'aroi', english: 'delicious', partOfSpeech: 'adjective', synonyms: ['อร่อยมาก'] },
+  { thai: 'มาก', transliteration: 'mak', english: 'very', partOfSpeech: 'adverb', synonyms: ['จัง'] },
+  { thai: 'ดี', transliteration: 'di', english: 'good', partOfSpeech: 'adjective', synonyms: ['เยี่ยม'], antonyms: ['เลว', 'ไม่ดี'],
+    senses: [{ partOfSpeech: 'adverb', definition: 'well', register: 'neutral', exampleThai: 'เขาร้องเพลงดี', exampleEnglish: 'He sings well.' }] },
+  { thai: 'เท่าไหร่', transliteration: 'thao rai', english: 'how much', partOfSpeech: 'adverb' },
+  { thai: 'บ้าน', transliteration: 'ban', english: 'house', partOfSpeech: 'noun', classifier: 'หลัง', synonyms: ['ที่อยู่'] },
+  { thai: 'วันนี้', transliteration: 'wan ni', english: 'today', partOfSpeech: 'noun' },
+];
+
+const THAI_CHAR = /[\u0E00-\u0E7F]/;
+
+const DICTIONARY = createDictionary(LEXICON.map(entry => entry.thai));
+
+// Primary gloss without any parenthetical note, e.g. "I (male speaker)" -> "I"
+const primaryGloss = (english: string) => english.replace(/\s*\(.*\)$/, '');
+
+const unknownSegment = (thai: string): Segment => ({
+  thai,
+  transliteration: '',
+  english: '(unknown)',
+  partOfSpeech: 'unknown',
+});
+
+// Dictionary segmentation restricted to the mock lexicon
+const segmentThai = (text: string): Segment[] =>
+  segmentWords(text, DICTIONARY).map(word => {
+    const entry = LEXICON.find(e => e.thai === word);
+    if (!entry) return unknownSegment(word);
+    const { thai, transliteration, english, partOfSpeech, classifier } = entry;
+    return { thai, transliteration, english, partOfSpeech, ...(classifier ? { classifier } : {}) };
+  });
+
+const translate = async (text: string): Promise<QuickTranslation> => {
+  if (THAI_CHAR.test(text)) {
+    const segments = segmentThai(text);
+    return {
+      translatedText: segments
+        .filter(s => s.partOfSpeech !== 'particle')
+        .map(s => primaryGloss(s.english))
+        .join(' ') || `[mock] ${text}`,
+      transliteration: segments.map(s => s.transliteration).filter(Boolean).join(' '),
+    };
+  }
+
+  const query = text.trim().toLowerCase();
+  const phrase = LEXICON.find(entry => primaryGloss(entry.english).toLowerCase() === query);
+  const entries = phrase
+    ? [phrase]
+    : query.split(/\s+/).map(word => LEXICON.find(entry => primaryGloss(entry.english).toLowerCase() === word));
+
+  if (entries.length === 0 || entries.some(entry => !entry)) {
+    return { translatedText: `[mock] ${text}`, transliteration: '' };
+  }
+  return {
+    translatedText: entries.map(entry => entry!.thai).join(''),
+    transliteration: entries.map(entry => entry!.transliteration).join(' '),
+  };
+};
+
+const analyze = async (original: string, translated: string): Promise<TextAnalysis> => {
+  const thaiText = THAI_CHAR.test(original) ? original : translated;
+  const segments = segmentThai(thaiText);
+  const keyword = segments.find(s => s.partOfSpeech === 'noun')
+    || segments.find(s => s.partOfSpeech !== 'unknown' && s.partOfSpeech !== 'particle');
+
+  return {
+    segments,
+    exampleSentenceThai: keyword ? `ฉันชอบคำว่า${keyword.thai}` : '',
+    exampleSentenceEnglish: keyword ? `I like the word "${primaryGloss(keyword.english)}".` : '',
+  };
+};
+
+const enrich = async (segments: Segment[]): Promise<Segment[]> => {
+  return segments.map(segment => {
+    const entry = LEXICON.find(e => e.thai === segment.thai);
+    return {
+      ...segment,
+      synonyms: entry?.synonyms || [],
+      antonyms: entry?.antonyms || [],
+      relatedWords: entry?.relatedWords || [],
+      collocations: entry?.collocations || [],
+    };
+  });
+};
+
+// Sentence templates per level; the first one not already on the card is used
+const EXAMPLE_TEMPLATES: Record<ExampleLevel, { thai: (w: string) => string; english: (w: string) => string }[]> = {
+  beginner: [
+    { thai: w => `ฉันชอบคำว่า${w}`, english: w => `I like the word "${w}".` },
+    { thai: w => `นี่คือคำว่า${w}`, english: w => `This is the word "${w}".` },
+  ],
+  intermediate: [
+    { thai: w => `วันนี้ฉันเรียนคำว่า${w}ที่โรงเรียน`, english: w => `Today I learned the word "${w}" at school.` },
+    { thai: w => `คุณรู้จักคำว่า${w}ไหม`, english: w => `Do you know the word "${w}"?` },
+  ],
+  advanced: [
+    { thai: w => `ถึงแม้ว่าคำว่า${w}จะใช้บ่อย แต่หลายคนก็ยังใช้ผิด`, english: w => `Although the word "${w}" is common, many people still use it wrongly.` },
+    { thai: w => `ครูอธิบายว่าคำว่า${w}มีความหมายลึกกว่าที่คิด`, english: w => `The teacher explained that the word "${w}" means more than you would think.` },
+  ],
+};
+
+const examples = async (request: ExampleRequest): Promise<GeneratedExample[]> => {
+  const english = primaryGloss(request.english);
+  return request.levels.map(level => {
+    const templates = EXAMPLE_TEMPLATES[level];
+    const template = templates.find(t => !request.avoid.includes(t.thai(request.thai))) || templates[0];
+    return { level, thai: template.thai(request.thai), english: template.english(english) };
+  });
+};
+
+const define = async (word: string): Promise<WordSense[]> => {
+  const entry = LEXICON.find(e => e.thai === word);
+  if (!entry) return [];
+  const main: WordSense = {
+    partOfSpeech: entry.partOfSpeech,
+    definition: primaryGloss(entry.english),
+    register: 'neutral',
+    exampleThai: `ฉันชอบคำว่า${entry.thai}`,
+    exampleEnglish: `I like the word "${primaryGloss(entry.english)}".`,
+    matchesContext: true,
+  };
+  return [main, ...(entry.senses || [])];
+};
+
+// The lexicon entry's fields; examples are fixed sentences at the card's levels
+const revise = async (card: CardRevisionRequest): Promise<CardRevision> => {
+  const entry = LEXICON.find(e => e.thai === card.thai);
+  const english = entry ? primaryGloss(entry.english) : card.english;
+  const levels: ExampleLevel[] = card.examples.length > 0 ? card.examples.map(e => e.level) : ['beginner', 'intermediate'];
+  return {
+    transliteration: entry?.transliteration || card.transliteration,
+    english,
+    partOfSpeech: entry?.partOfSpeech || card.partOfSpeech,
+    classifier: entry?.classifier || card.classifier,
+    examples: await examples({ thai: card.thai, english, levels, avoid: [] }),
+  };
+};
+
+// Every photo "contains" the same small menu, so the photo flow can be tried offline
+const MOCK_PHOTO_LINES: OcrLine[] = [
+  { text: 'ข้าว', region: { x: 0.2, y: 0.1, width: 0.6, height: 0.15 } },
+  { text: 'น้ำ', region: { x: 0.2, y: 0.35, width: 0.4, height: 0.12 } },
+  { text: 'อร่อยมาก', region: { x: 0.15, y: 0.6, width: 0.7, height: 0.15 } },
+];
+
+const ocr = async (): Promise<OcrLine[]> => MOCK_PHOTO_LINES;
+
+export const mockProvider: TranslationProvider = {
+  id: 'mock',
+  translate,
+  analyze,
+  enrich,
+  examples,
+  define,
+  ocr,
+  revise,
+};
@@ -0,0 +1,59 @@
+import { CardRevision, CardRevisionRequest, ExampleRequest, GeneratedExample, GrammarAnalysis, ImageInput, OcrLine, QuickTranslation, Segment, SpeechProfile, TextAnalysis, WordSense } from "../../types";
+import type { TranslationProvider } from "../translationProvider";
+import { errorForStatus } from "../translationErrors";
+import { MAX_ENRICH_WORDS } from "../prompts";
+import { validateCardRevision, validateExampleList, validateGrammarAnalysis, validateOcrLines, validateQuickTranslation, validateSegments, validateSenseList, validateTextAnalysis } from "../responseValidation";
+
+// Calls the API endpoints exposed by server.js, which holds the Gemini key server-side.
+// API_PROXY_URL is the server's base URL, e.g. "https://tuktuk.example.com" or "/" for same origin.
+
+export const getProxyBaseUrl = (): string => String(process.env.API_PROXY_URL || '').trim();
+
+// Returns the parsed body unchecked; callers validate it like a direct model response
+const postJson = async (endpoint: string, body: unknown, signal?: AbortSignal): Promise<unknown> => {
+  const baseUrl = getProxyBaseUrl().replace(/\/+$/, '');
+  const response = await fetch(`${baseUrl}/api/${endpoint}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw errorForStatus(
+      response.status,
+      `Proxy /api/${endpoint} failed with status ${response.status}${payload?.error ? `: ${payload.error}` : ''}`
+    );
+  }
+  return response.json();
+};
+
+// The server takes at most MAX_ENRICH_WORDS words per request, so longer texts go in parts
+const enrich = async (segments: Segment[], signal?: AbortSignal): Promise<Segment[]> => {
+  const parts: Promise<Segment[]>[] = [];
+  for (let offset = 0; offset < segments.length; offset += MAX_ENRICH_WORDS) {
+    const part = segments.slice(offset, offset + MAX_ENRICH_WORDS);
+    parts.push(postJson('synonyms', { segments: part }, signal).then(validateSegments));
+  }
+  return (await Promise.all(parts)).flat();
+};
+
+export const proxyProvider: TranslationProvider = {
+  id: 'proxy',
+  translate: async (text: string, signal?: AbortSignal, profile?: SpeechProfile): Promise<QuickTranslation> =>
+    validateQuickTranslation(await postJson('translate', { text, profile }, signal)),
+  analyze: async (original: string, translated: string, signal?: AbortSignal, profile?: SpeechProfile): Promise<TextAnalysis> =>
+    validateTextAnalysis(await postJson('analyze', { original, translated, profile }, signal)),
+  enrich,
+  examples: async (request: ExampleRequest, signal?: AbortSignal, profile?: SpeechProfile): Promise<GeneratedExample[]> =>
+    validateExampleList(await postJson('examples', { ...request, profile }, signal), request.levels),
+  define: async (word: string, context: string, signal?: AbortSignal): Promise<WordSense[]> =>
+    validateSenseList(await postJson('define', { word, context }, signal)),
+  grammar: async (thai: string, english: string, segments: Segment[], signal?: AbortSignal): Promise<GrammarAnalysis> =>
+    validateGrammarAnalysis(await postJson('grammar', { thai, english, words: segments.map(s => s.thai) }, signal), segments.length),
+  ocr: async (image: ImageInput, signal?: AbortSignal): Promise<OcrLine[]> =>
+    validateOcrLines(await postJson('ocr', { image }, signal)),
+  revise: async (card: CardRevisionRequest, signal?: AbortSignal, profile?: SpeechProfile): Promise<CardRevision> =>
+    validateCardRevision(await postJson('revise', { card, profile }, signal)),
+};
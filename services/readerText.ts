@@ -0,0 +1,45 @@
+import { segmentWords } from "./thaiSegmenter";
+import { thaiKey } from "./vocabImport";
+
+// Reader tab text: segmented once into tappable words, keeping every other
+// character (spaces, punctuation, Latin text) so the text renders unchanged.
+
+const STORAGE_KEY = 'thaiMasterReader';
+
+export interface ReaderToken {
+  text: string;
+  isWord: boolean; // A Thai word that can be looked up
+}
+
+const NOT_A_WORD = /^[\u0E4F-\u0E5B\u0E2F]+$/; // Thai digits and abbreviation marks
+const MAI_YAMOK = /\u0E46$/;
+
+// Key used to match a word against the vocabulary and lexicon (ดีๆ → ดี), normalized like saved cards
+export const readerKey = (word: string) => thaiKey(word).replace(MAI_YAMOK, '');
+
+export const tokenizeForReading = (text: string): ReaderToken[] => {
+  const tokens: ReaderToken[] = [];
+  // With a capture group, odd indices are the Thai runs
+  text.normalize('NFC').split(/([\u0E00-\u0E7F]+)/).forEach((part, idx) => {
+    if (!part) return;
+    if (idx % 2 === 0) {
+      tokens.push({ text: part, isWord: false });
+      return;
+    }
+    segmentWords(part).forEach(word => tokens.push({ text: word, isWord: !NOT_A_WORD.test(word) }));
+  });
+  return tokens;
+};
+
+// Running-word coverage: how many of the text's words are in `known`
+export const readingCoverage = (tokens: ReaderToken[], known: Set<string>) => {
+  const words = tokens.filter(t => t.isWord);
+  const knownCount = words.filter(t => known.has(readerKey(t.text))).length;
+  return { known: knownCount, total: words.length };
+};
+
+export const loadReaderText = (): string => localStorage.getItem(STORAGE_KEY) || '';
+
+export const saveReaderText = (text: string) => {
+  localStorage.setItem(STORAGE_KEY, text);
+};
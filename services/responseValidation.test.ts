@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import {
+  validateCardRevision,
+  validateEnrichmentList,
+  validateExampleList,
+  validateGrammarAnalysis,
+  validateOcrLines,
+  validateQuickTranslation,
+  validateSegments,
+  validateSenseList,
+  validateTextAnalysis,
+} from './responseValidation';
+import { TranslationError } from './translationErrors';
+
+const segment = { thai: 'กิน', english: 'eat', transliteration: 'kin', partOfSpeech: 'verb' };
+
+// Runs `validate` and returns the 'malformed' error it must throw
+const malformed = (validate: () => unknown): TranslationError => {
+  try {
+    validate();
+  } catch (error) {
+    expect(error).toBeInstanceOf(TranslationError);
+    expect((error as TranslationError).kind).toBe('malformed');
+    return error as TranslationError;
+  }
+  throw new Error('Expected a malformed response error');
+};
+
+describe('repairs', () => {
+  it('splits a string where a list is expected', () => {
+    const [word] = validateSegments([{ ...segment, synonyms: 'ทาน, รับประทาน; แดก', antonyms: [] }]);
+    expect(word.synonyms).toEqual(['ทาน', 'รับประทาน', 'แดก']);
+    expect(word.antonyms).toEqual([]);
+    expect(word.relatedWords).toBeUndefined();
+  });
+
+  it('fills in a missing part of speech and reads unquoted numbers', () => {
+    const [word] = validateSegments([{ thai: 'สอง', english: 2 }]);
+    expect(word).toEqual({ thai: 'สอง', english: '2', transliteration: '', partOfSpeech: '' });
+  });
+
+  it('accepts a bare segment list as an analysis', () => {
+    expect(validateTextAnalysis([segment])).toEqual({
+      segments: [segment],
+      exampleSentenceThai: '',
+      exampleSentenceEnglish: '',
+      registerVariants: [],
+    });
+  });
+
+  it('treats a lone object as a list of one', () => {
+    expect(validateTextAnalysis({ segments: segment }).segments).toEqual([segment]);
+    expect(validateSenseList({ definition: 'to eat' }).map(s => s.definition)).toEqual(['to eat']);
+    expect(validateEnrichmentList({ index: '0', synonyms: ['ทาน'] })).toEqual([
+      { index: 0, synonyms: ['ทาน'], antonyms: [], relatedWords: [], collocations: [] },
+    ]);
+  });
+
+  it('drops grammar indices outside the breakdown', () => {
+    const grammar = validateGrammarAnalysis({
+      structure: 'Subject + verb',
+      points: [{ kind: 'Negation', title: 'ไม่', segmentIndices: [0, '1', 2, -1, 1.5] }],
+    }, 2);
+    expect(grammar.points).toEqual([{ kind: 'negation', title: 'ไม่', explanation: '', segmentIndices: [0, 1] }]);
+  });
+
+  it('drops unusable optional extras instead of failing', () => {
+    const analysis = validateTextAnalysis({
+      segments: [segment],
+      registerVariants: [{ register: 'Casual', thai: 'กินยัง' }, { register: 'royal', thai: 'เสวย' }, 'formal'],
+    });
+    expect(analysis.registerVariants).toEqual([{ register: 'casual', thai: 'กินยัง', english: '' }]);
+    expect(validateOcrLines({ lines: [{ text: '' }, { text: 'ร้านอาหาร', box: [0, 0, 'x', 1] }] }))
+      .toEqual([{ text: 'ร้านอาหาร' }]);
+  });
+
+  it('takes the requested level for an unknown one', () => {
+    const examples = validateExampleList({ examples: [{ thai: 'กินข้าว', level: 'easy' }, { thai: 'กินข้าวยัง' }] }, ['beginner', 'advanced']);
+    expect(examples.map(e => e.level)).toEqual(['beginner', 'advanced']);
+  });
+});
+
+describe('malformed responses', () => {
+  it('rejects a body that is not an object', () => {
+    expect(malformed(() => validateQuickTranslation('สวัสดี')).message).toMatch(/translation.*body is not an object/);
+    malformed(() => validateTextAnalysis(null));
+    malformed(() => validateGrammarAnalysis([], 1));
+    malformed(() => validateCardRevision('ok'));
+  });
+
+  it('rejects a missing required field', () => {
+    expect(malformed(() => validateQuickTranslation({ transliteration: 'sawatdee' })).message).toMatch(/translatedText is missing/);
+    expect(malformed(() => validateTextAnalysis({ segments: [{ thai: 'กิน' }] })).message).toMatch(/segments\[0\]\.english is missing/);
+    expect(malformed(() => validateTextAnalysis({ exampleSentenceThai: 'กิน' })).message).toMatch(/segments is missing/);
+    expect(malformed(() => validateSenseList([{ partOfSpeech: 'verb' }])).message).toMatch(/\[0\]\.definition is missing/);
+    expect(malformed(() => validateGrammarAnalysis({ points: [] }, 1)).message).toMatch(/structure is missing/);
+    expect(malformed(() => validateGrammarAnalysis({ structure: 'S V', points: [{}] }, 1)).message).toMatch(/points\[0\]\.title is missing/);
+    expect(malformed(() => validateExampleList([{ english: 'I eat' }], ['beginner'])).message).toMatch(/\[0\]\.thai is missing/);
+    expect(malformed(() => validateEnrichmentList([{ synonyms: [] }])).message).toMatch(/\[0\]\.index is missing/);
+  });
+
+  it('rejects a value that is not a list', () => {
+    expect(malformed(() => validateSegments('กิน')).message).toMatch(/body is not a list/);
+    expect(malformed(() => validateTextAnalysis({ segments: 'กิน' })).message).toMatch(/segments is not a list/);
+    malformed(() => validateGrammarAnalysis({ structure: 'S V', points: 'none' }, 1));
+    malformed(() => validateOcrLines({ lines: 3 }));
+  });
+
+  it('rejects list items that are not objects', () => {
+    expect(malformed(() => validateSegments(['กิน'])).message).toMatch(/\[0\] is not an object/);
+    malformed(() => validateEnrichmentList([1]));
+    malformed(() => validateExampleList(['กินข้าว'], ['beginner']));
+    malformed(() => validateSenseList([null]));
+    malformed(() => validateGrammarAnalysis({ structure: 'S V', points: ['ไม่'] }, 1));
+    malformed(() => validateOcrLines(['ร้าน']));
+  });
+
+  it('rejects an empty example list', () => {
+    expect(malformed(() => validateExampleList([], ['beginner'])).message).toMatch(/list is empty/);
+  });
+});
@@ -0,0 +1,221 @@
+import { CardRevision, ExampleLevel, GeneratedExample, GrammarAnalysis, GrammarPointKind, ImageRegion, OcrLine, QuickTranslation, Register, RegisterVariant, Segment, SenseRegister, TextAnalysis, WordSense } from "../types";
+import { TranslationError } from "./translationErrors";
+
+// Runtime checks for model responses (Gemini directly or through the proxy).
+// The response schema is only a hint to the model: replies can be truncated or
+// off-schema. Harmless slips are repaired (a missing part of speech, a string
+// where a list is expected); anything else is reported as a 'malformed'
+// TranslationError so the chain can retry or fall through to the next provider.
+
+// Enrichment for one segment, matched back to it by position
+export interface WordEnrichment {
+  index: number;
+  synonyms: string[];
+  antonyms: string[];
+  relatedWords: string[];
+  collocations: string[];
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const invalid = (label: string, problem: string) =>
+  new TranslationError('malformed', `Invalid ${label} response: ${problem}`);
+
+// Strings, or numbers the model sent unquoted
+const readString = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number') return String(value);
+  return undefined;
+};
+
+const requireString = (obj: Json, key: string, label: string, path: string): string => {
+  const value = readString(obj[key]);
+  if (!value) throw invalid(label, `${path}${key} is missing`);
+  return value;
+};
+
+const optionalString = (obj: Json, key: string): string => readString(obj[key]) || '';
+
+// A list of strings; "a, b; c" is split into items
+const readStringList = (value: unknown): string[] => {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,;\n]/) : [];
+  return items.map(readString).filter((item): item is string => !!item);
+};
+
+// A list of objects; a lone object is treated as a list of one
+const readList = (value: unknown, label: string, path: string): unknown[] => {
+  if (Array.isArray(value)) return value;
+  if (isObject(value)) return [value];
+  throw invalid(label, `${path || 'body'} is not a list`);
+};
+
+const ENRICHMENT_KEYS = ['synonyms', 'antonyms', 'relatedWords', 'collocations'] as const;
+
+const validateSegment = (value: unknown, label: string, path: string): Segment => {
+  if (!isObject(value)) throw invalid(label, `${path} is not an object`);
+  const segment: Segment = {
+    thai: requireString(value, 'thai', label, `${path}.`),
+    english: requireString(value, 'english', label, `${path}.`),
+    transliteration: optionalString(value, 'transliteration'),
+    partOfSpeech: optionalString(value, 'partOfSpeech'),
+  };
+  const classifier = optionalString(value, 'classifier');
+  if (classifier) segment.classifier = classifier;
+  ENRICHMENT_KEYS.forEach(key => {
+    if (value[key] !== undefined) segment[key] = readStringList(value[key]);
+  });
+  return segment;
+};
+
+export const validateQuickTranslation = (data: unknown): QuickTranslation => {
+  if (!isObject(data)) throw invalid('translation', 'body is not an object');
+  return {
+    translatedText: requireString(data, 'translatedText', 'translation', ''),
+    transliteration: optionalString(data, 'transliteration'),
+  };
+};
+
+const REGISTER_IDS: Register[] = ['casual', 'polite', 'formal'];
+
+// Optional extra, so unusable variants are dropped rather than failing the analysis
+const readRegisterVariants = (value: unknown): RegisterVariant[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(item => {
+    if (!isObject(item)) return [];
+    const register = optionalString(item, 'register').toLowerCase() as Register;
+    const thai = optionalString(item, 'thai');
+    if (!REGISTER_IDS.includes(register) || !thai) return [];
+    return [{ register, thai, english: optionalString(item, 'english') }];
+  });
+};
+
+export const validateTextAnalysis = (data: unknown): TextAnalysis => {
+  // A bare segment list is accepted as an analysis without examples
+  const body = Array.isArray(data) ? { segments: data } : data;
+  if (!isObject(body)) throw invalid('analysis', 'body is not an object');
+  if (body.segments === undefined) throw invalid('analysis', 'segments is missing');
+
+  return {
+    segments: readList(body.segments, 'analysis', 'segments')
+      .map((segment, idx) => validateSegment(segment, 'analysis', `segments[${idx}]`)),
+    exampleSentenceThai: optionalString(body, 'exampleSentenceThai'),
+    exampleSentenceEnglish: optionalString(body, 'exampleSentenceEnglish'),
+    registerVariants: readRegisterVariants(body.registerVariants),
+  };
+};
+
+export const validateEnrichmentList = (data: unknown): WordEnrichment[] =>
+  readList(data, 'enrichment', '').map((entry, idx) => {
+    if (!isObject(entry)) throw invalid('enrichment', `[${idx}] is not an object`);
+    const rawIndex = readString(entry.index);
+    const index = rawIndex ? Number(rawIndex) : NaN;
+    if (!Number.isInteger(index) || index < 0) throw invalid('enrichment', `[${idx}].index is missing`);
+    return {
+      index,
+      synonyms: readStringList(entry.synonyms),
+      antonyms: readStringList(entry.antonyms),
+      relatedWords: readStringList(entry.relatedWords),
+      collocations: readStringList(entry.collocations),
+    };
+  });
+
+const EXAMPLE_LEVEL_IDS: ExampleLevel[] = ['beginner', 'intermediate', 'advanced'];
+
+// One example per requested level; an unknown level takes the one requested at that position
+export const validateExampleList = (data: unknown, levels: ExampleLevel[]): GeneratedExample[] => {
+  const body = isObject(data) && data.examples !== undefined ? data.examples : data;
+  const examples = readList(body, 'examples', '').map((entry, idx) => {
+    if (!isObject(entry)) throw invalid('examples', `[${idx}] is not an object`);
+    const level = optionalString(entry, 'level').toLowerCase() as ExampleLevel;
+    return {
+      thai: requireString(entry, 'thai', 'examples', `[${idx}].`),
+      english: optionalString(entry, 'english'),
+      level: EXAMPLE_LEVEL_IDS.includes(level) ? level : levels[idx] || levels[0] || 'beginner',
+    };
+  });
+  if (examples.length === 0) throw invalid('examples', 'list is empty');
+  return examples;
+};
+
+const SENSE_REGISTERS: SenseRegister[] = ['neutral', 'casual', 'formal', 'slang', 'literary'];
+
+export const validateSenseList = (data: unknown): WordSense[] => {
+  const body = isObject(data) && data.senses !== undefined ? data.senses : data;
+  return readList(body, 'senses', '').map((entry, idx) => {
+    if (!isObject(entry)) throw invalid('senses', `[${idx}] is not an object`);
+    const register = optionalString(entry, 'register').toLowerCase() as SenseRegister;
+    const sense: WordSense = {
+      partOfSpeech: optionalString(entry, 'partOfSpeech'),
+      definition: requireString(entry, 'definition', 'senses', `[${idx}].`),
+      register: SENSE_REGISTERS.includes(register) ? register : 'neutral',
+      exampleThai: optionalString(entry, 'exampleThai'),
+      exampleEnglish: optionalString(entry, 'exampleEnglish'),
+    };
+    if (entry.matchesContext === true || entry.matchesContext === 'true') sense.matchesContext = true;
+    return sense;
+  });
+};
+
+const GRAMMAR_KINDS: GrammarPointKind[] = ['question', 'negation', 'aspect', 'particle', 'politeness', 'other'];
+
+// Segment indices outside the breakdown are dropped rather than failing the explanation
+export const validateGrammarAnalysis = (data: unknown, segmentCount: number): GrammarAnalysis => {
+  if (!isObject(data)) throw invalid('grammar', 'body is not an object');
+  const points = data.points === undefined ? [] : readList(data.points, 'grammar', 'points');
+  return {
+    structure: requireString(data, 'structure', 'grammar', ''),
+    points: points.map((entry, idx) => {
+      if (!isObject(entry)) throw invalid('grammar', `points[${idx}] is not an object`);
+      const kind = optionalString(entry, 'kind').toLowerCase() as GrammarPointKind;
+      const indices = Array.isArray(entry.segmentIndices) ? entry.segmentIndices : [];
+      return {
+        kind: GRAMMAR_KINDS.includes(kind) ? kind : 'other',
+        title: requireString(entry, 'title', 'grammar', `points[${idx}].`),
+        explanation: optionalString(entry, 'explanation'),
+        segmentIndices: indices
+          .map(index => Number(readString(index)))
+          .filter(index => Number.isInteger(index) && index >= 0 && index < segmentCount),
+      };
+    }),
+  };
+};
+
+// Box as [ymin, xmin, ymax, xmax] on a 0-1000 scale; anything unusable is dropped
+const readRegion = (value: unknown): ImageRegion | undefined => {
+  if (!Array.isArray(value) || value.length !== 4) return undefined;
+  const [y1, x1, y2, x2] = value.map(n => Math.min(1, Math.max(0, Number(readString(n)) / 1000)));
+  if ([y1, x1, y2, x2].some(Number.isNaN)) return undefined;
+  const region = { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+  return region.width > 0 && region.height > 0 ? region : undefined;
+};
+
+export const validateOcrLines = (data: unknown): OcrLine[] => {
+  const body = isObject(data) && data.lines !== undefined ? data.lines : data;
+  return readList(body, 'text extraction', 'lines').flatMap((entry, idx) => {
+    if (!isObject(entry)) throw invalid('text extraction', `lines[${idx}] is not an object`);
+    const text = optionalString(entry, 'text');
+    if (!text) return []; // Empty boxes are noise, not a broken reply
+    const region = readRegion(entry.box);
+    return [region ? { text, region } : { text }];
+  });
+};
+
+// Missing fields are left empty, i.e. nothing proposed for them
+export const validateCardRevision = (data: unknown): CardRevision => {
+  if (!isObject(data)) throw invalid('revision', 'body is not an object');
+  const hasExamples = data.examples !== undefined && !(Array.isArray(data.examples) && data.examples.length === 0);
+  return {
+    transliteration: optionalString(data, 'transliteration'),
+    english: optionalString(data, 'english'),
+    partOfSpeech: optionalString(data, 'partOfSpeech'),
+    classifier: optionalString(data, 'classifier'),
+    examples: hasExamples ? validateExampleList(data.examples, ['beginner', 'intermediate']) : [],
+  };
+};
+
+// Segments echoed back by the proxy's enrichment endpoint
+export const validateSegments = (data: unknown): Segment[] =>
+  readList(data, 'segments', '').map((segment, idx) => validateSegment(segment, 'segments', `[${idx}]`));
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { looseRomanKey, romanToThai } from './romanInput';
+import { VocabCard } from '../types';
+
+const thaiFor = (query: string, vocabulary: VocabCard[] = []) => romanToThai(query, vocabulary).map(c => c.thai);
+
+describe('looseRomanKey', () => {
+  it('folds the common spellings of a word together', () => {
+    expect(looseRomanKey('sawasdee')).toBe(looseRomanKey('sà-wàt-dii'));
+    expect(looseRomanKey('krap')).toBe(looseRomanKey('khrap'));
+    expect(looseRomanKey('bpen')).toBe(looseRomanKey('pen'));
+  });
+});
+
+describe('romanToThai', () => {
+  it('finds a word however the learner spells it', () => {
+    expect(thaiFor('sawasdee')[0]).toBe('สวัสดี');
+    expect(thaiFor('sawatdee')[0]).toBe('สวัสดี');
+  });
+
+  it('finds a set phrase typed as separate words', () => {
+    expect(thaiFor('mai pen rai')[0]).toBe('ไม่เป็นไร');
+  });
+
+  it('builds phrases from words and offers each ambiguous word both ways', () => {
+    expect(thaiFor('sawatdee khrap')[0]).toBe('สวัสดีครับ');
+    expect(thaiFor('kin khao')).toEqual(expect.arrayContaining(['กินเขา', 'กินข้าว']));
+  });
+
+  it('puts the learner\'s own words first', () => {
+    const vocabulary: VocabCard[] = [{ id: '1', thai: 'ข้าว', transliteration: 'khao', english: 'rice', dateAdded: 0 }];
+    expect(thaiFor('khao', vocabulary)[0]).toBe('ข้าว');
+    expect(thaiFor('kin khao', vocabulary)[0]).toBe('กินข้าว');
+  });
+});
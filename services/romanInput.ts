@@ -0,0 +1,158 @@
+import { VocabCard } from "../types";
+import { romanize } from "./romanization";
+import { lexiconWords, lookupWord } from "./thaiLexicon";
+
+// Typing Thai through romanization: "sawatdee khrap" -> สวัสดีครับ.
+// Learners spell Thai sounds many ways (dee/di, khrap/krap, bp/p), so typed text and
+// the romanized forms of known words are both folded to a loose key before matching.
+
+export interface ThaiCandidate {
+  thai: string;
+  romanized: string;
+  english?: string;
+  source: 'vocab' | 'lexicon' | 'phrase';
+}
+
+interface IndexEntry {
+  thai: string;
+  keys: string[];
+  romanized: string;
+  english?: string;
+  source: 'vocab' | 'lexicon';
+}
+
+interface SearchIndex {
+  entries: IndexEntry[];
+  // Every entry for a key, the learner's own words first
+  byKey: Map<string, IndexEntry[]>;
+}
+
+// Folds a romanization to a loose key: no tone marks, aspiration, vowel length or voicing,
+// and a final s read as the t it sounds like (sawasdee -> sawatdee)
+export const looseRomanKey = (latin: string): string =>
+  latin
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ɔ/g, 'o').replace(/ʉ/g, 'ue').replace(/ɛ/g, 'ae').replace(/ə/g, 'oe')
+    .replace(/[^a-z]/g, '')
+    .replace(/(?<=[aeiou])s(?![aeiou])/g, 't')
+    .replace(/ee/g, 'i')
+    .replace(/(?<=[aeiou])y/g, 'i')
+    .replace(/(?<=[aeiou])w(?![aeiou])/g, 'o')
+    .replace(/bp/g, 'p').replace(/dt/g, 't')
+    .replace(/([kptc])h/g, '$1')
+    .replace(/j/g, 'c').replace(/b/g, 'p').replace(/d/g, 't').replace(/g/g, 'k')
+    .replace(/(.)\1+/g, '$1');
+
+const toEntry = (thai: string, romanized: string, source: IndexEntry['source'], english?: string, extra: string[] = []): IndexEntry => ({
+  thai,
+  romanized,
+  english,
+  source,
+  keys: [...new Set([romanized, romanize(thai, 'paiboon'), ...extra].map(looseRomanKey).filter(Boolean))],
+});
+
+let lexiconEntries: IndexEntry[] | null = null;
+
+// Built on first use; romanizing the whole lexicon is too slow to do per keystroke
+const getLexiconEntries = () => {
+  if (!lexiconEntries) {
+    lexiconEntries = lexiconWords().map(thai => toEntry(thai, romanize(thai, 'rtgs'), 'lexicon', lookupWord(thai)?.english));
+  }
+  return lexiconEntries;
+};
+
+// One index per vocabulary list, so typing only romanizes the cards again after they change
+const indexCache = new WeakMap<VocabCard[], SearchIndex>();
+
+const getIndex = (vocabulary: VocabCard[]): SearchIndex => {
+  const cached = indexCache.get(vocabulary);
+  if (cached) return cached;
+
+  const entries = [
+    ...vocabulary
+      .filter(card => /[\u0E00-\u0E7F]/.test(card.thai))
+      .map(card => toEntry(card.thai, romanize(card.thai, 'rtgs'), 'vocab', card.english, [card.transliteration])),
+    ...getLexiconEntries(),
+  ];
+  const byKey = new Map<string, IndexEntry[]>();
+  entries.forEach(entry => entry.keys.forEach(k => {
+    const list = byKey.get(k) ?? [];
+    if (!list.some(e => e.thai === entry.thai)) list.push(entry);
+    byKey.set(k, list);
+  }));
+
+  const index = { entries, byKey };
+  indexCache.set(vocabulary, index);
+  return index;
+};
+
+// Exact matches first, then words the query is the start of; the learner's own words before the lexicon
+const rank = (entry: IndexEntry, key: string): number => {
+  const bonus = entry.source === 'vocab' ? 0.5 : 0;
+  if (entry.keys.includes(key)) return 3 + bonus;
+  if (key.length >= 2 && entry.keys.some(k => k.startsWith(key))) return 1 + bonus;
+  return 0;
+};
+
+// Splits a key into known words, preferring the fewest pieces. Each piece lists every word
+// spelled that way (e.g. เขา and ข้าว for "khao"), vocabulary words first.
+const segmentKey = (key: string, byKey: SearchIndex['byKey']): IndexEntry[][] | null => {
+  const best: (IndexEntry[][] | null)[] = [[]];
+  for (let end = 1; end <= key.length; end++) {
+    best[end] = null;
+    for (let start = 0; start < end; start++) {
+      const prefix = best[start];
+      const words = byKey.get(key.slice(start, end));
+      if (!prefix || !words) continue;
+      if (!best[end] || prefix.length + 1 < best[end]!.length) best[end] = [...prefix, words];
+    }
+  }
+  return best[key.length];
+};
+
+const toPhrase = (parts: IndexEntry[]): ThaiCandidate => ({
+  thai: parts.map(p => p.thai).join(''),
+  romanized: parts.map(p => p.romanized).join(' '),
+  source: 'phrase',
+});
+
+// Thai candidates for a romanized query, best first
+export const romanToThai = (query: string, vocabulary: VocabCard[], limit = 6): ThaiCandidate[] => {
+  const words = query.trim().split(/\s+/).map(looseRomanKey).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const { entries, byKey } = getIndex(vocabulary);
+  const candidates: ThaiCandidate[] = [];
+
+  // Whole query as one word or saved phrase
+  const whole = words.join('');
+  entries
+    .map(entry => ({ entry, score: rank(entry, whole) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.entry.thai.length - b.entry.thai.length)
+    .forEach(({ entry }) => {
+      if (!candidates.some(c => c.thai === entry.thai)) {
+        candidates.push({ thai: entry.thai, romanized: entry.romanized, english: entry.english, source: entry.source });
+      }
+    });
+
+  // Word by word, e.g. "sawatdee khrap" or "sawatdeekhrap", then the same phrase
+  // with each ambiguous word swapped for its other spellings ("kin khao": กินเขา, กินข้าว)
+  const pieces = words.map(word => segmentKey(word, byKey));
+  if (pieces.every(Boolean)) {
+    const slots = pieces.flat() as IndexEntry[][];
+    const first = slots.map(slot => slot[0]);
+    const phrases = [toPhrase(first)];
+    slots.forEach((slot, i) => slot.slice(1).forEach(other => {
+      phrases.push(toPhrase(first.map((word, j) => (j === i ? other : word))));
+    }));
+    const fresh = slots.length > 1 ? phrases.filter(p => !candidates.some(c => c.thai === p.thai)) : [];
+    // An exact single-word match stays first; otherwise the phrases lead
+    if (byKey.has(whole)) candidates.push(...fresh);
+    else candidates.unshift(...fresh);
+  }
+
+  return candidates.slice(0, limit);
+};
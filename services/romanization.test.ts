@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { cardTransliteration, romanize, romanizeOr } from './romanization';
+
+describe('romanize', () => {
+  it('writes each scheme', () => {
+    expect(romanize('สวัสดี', 'rtgs')).toBe('sawatdi');
+    expect(romanize('สวัสดี', 'paiboon')).toBe('sà-wàt-dii');
+  });
+
+  it('passes non-Thai words through', () => {
+    expect(romanize('ไป 7-Eleven', 'rtgs')).toBe('pai 7 Eleven');
+  });
+});
+
+describe('romanizeOr', () => {
+  it('computes the transliteration in the chosen scheme', () => {
+    expect(romanizeOr('สวัสดี', 'sawasdee', 'rtgs')).toBe('sawatdi');
+  });
+
+  it('keeps the saved transliteration when asked to', () => {
+    expect(romanizeOr('สวัสดี', 'sawasdee', 'saved')).toBe('sawasdee');
+  });
+
+  it('falls back to RTGS when nothing was saved', () => {
+    expect(romanizeOr('สวัสดี', '', 'saved')).toBe('sawatdi');
+  });
+
+  it('keeps the saved value when there is no Thai to romanize', () => {
+    expect(romanizeOr('', 'sawasdee', 'paiboon')).toBe('sawasdee');
+  });
+});
+
+describe('cardTransliteration', () => {
+  const card = { id: '1', thai: 'สวัสดี', transliteration: 'sawasdee', english: 'hello', dateAdded: 0 };
+
+  it('romanizes cards in the chosen scheme', () => {
+    expect(cardTransliteration(card, 'paiboon')).toBe('sà-wàt-dii');
+  });
+
+  it('shows a transliteration the user wrote as is', () => {
+    expect(cardTransliteration({ ...card, transliteration: 'sa-wat-dee', transliterationEdited: true }, 'paiboon')).toBe('sa-wat-dee');
+  });
+});
@@ -0,0 +1,140 @@
+import { RomanizationScheme, VocabCard } from "../types";
+import { FinalSound, ThaiSyllable, VowelQuality, parseSyllables } from "./thaiSyllables";
+import { segmentWords } from "./thaiSegmenter";
+import { Tone, wordTones } from "./thaiTones";
+
+// Local Thai → Latin transliteration in one of several schemes, so every
+// transliteration in the app follows the same system whichever provider answered.
+
+export const ROMANIZATION_SCHEMES: { id: RomanizationScheme; label: string; example: string }[] = [
+  { id: 'rtgs', label: 'RTGS', example: 'sawatdi' },
+  { id: 'paiboon', label: 'Paiboon+', example: 'sà-wàt-dii' },
+  { id: 'ipa', label: 'IPA', example: 'sa˨˩.wat̚˨˩.diː˧' },
+  { id: 'saved', label: 'As saved', example: 'sawasdee' },
+];
+
+export const DEFAULT_ROMANIZATION: RomanizationScheme = 'rtgs';
+
+interface SchemeTable {
+  initials: Record<string, string>;
+  vowels: Record<VowelQuality, [string, string]>; // [short, long]
+  finals: Record<Exclude<FinalSound, ''>, string>;
+  syllableSeparator: string;
+}
+
+// Builds a consonant table from "letters:value" groups
+const consonants = (groups: string): Record<string, string> => {
+  const table: Record<string, string> = {};
+  groups.trim().split(/\s+/).forEach(group => {
+    const [letters, value] = group.split(':');
+    for (const letter of letters) table[letter] = value || '';
+  });
+  return table;
+};
+
+type RuleScheme = Exclude<RomanizationScheme, 'saved'>;
+
+// Scheme the rules use; "As saved" falls back to RTGS where nothing was saved
+const ruleScheme = (scheme: RomanizationScheme): RuleScheme => scheme === 'saved' ? 'rtgs' : scheme;
+
+const SCHEMES: Record<RuleScheme, SchemeTable> = {
+  rtgs: {
+    initials: consonants(`
+      ก:k ขฃคฅฆ:kh ง:ng จฉชฌ:ch ซศษส:s ญย:y ฎด:d ฏต:t ฐฑฒถทธ:th ณน:n บ:b ป:p
+      ผพภ:ph ฝฟ:f ม:m ร:r ลฬ:l ว:w หฮ:h อ:
+    `),
+    vowels: {
+      a: ['a', 'a'], i: ['i', 'i'], ɯ: ['ue', 'ue'], u: ['u', 'u'], e: ['e', 'e'], ɛ: ['ae', 'ae'],
+      o: ['o', 'o'], ɔ: ['o', 'o'], ə: ['oe', 'oe'], ia: ['ia', 'ia'], ɯa: ['uea', 'uea'], ua: ['ua', 'ua'],
+    },
+    finals: { k: 'k', t: 't', p: 'p', ng: 'ng', n: 'n', m: 'm', j: 'i', w: 'o' },
+    syllableSeparator: '',
+  },
+  paiboon: {
+    initials: consonants(`
+      ก:g ขฃคฅฆ:k ง:ng จ:j ฉชฌ:ch ซศษส:s ญย:y ฎด:d ฏต:dt ฐฑฒถทธ:t ณน:n บ:b ป:bp
+      ผพภ:p ฝฟ:f ม:m ร:r ลฬ:l ว:w หฮ:h อ:
+    `),
+    vowels: {
+      a: ['a', 'aa'], i: ['i', 'ii'], ɯ: ['ʉ', 'ʉʉ'], u: ['u', 'uu'], e: ['e', 'ee'], ɛ: ['ɛ', 'ɛɛ'],
+      o: ['o', 'oo'], ɔ: ['ɔ', 'ɔɔ'], ə: ['ə', 'əə'], ia: ['ia', 'iia'], ɯa: ['ʉa', 'ʉʉa'], ua: ['ua', 'uua'],
+    },
+    finals: { k: 'k', t: 't', p: 'p', ng: 'ng', n: 'n', m: 'm', j: 'i', w: 'o' },
+    syllableSeparator: '-',
+  },
+  ipa: {
+    initials: consonants(`
+      ก:k ขฃคฅฆ:kʰ ง:ŋ จ:tɕ ฉชฌ:tɕʰ ซศษส:s ญย:j ฎด:d ฏต:t ฐฑฒถทธ:tʰ ณน:n บ:b ป:p
+      ผพภ:pʰ ฝฟ:f ม:m ร:r ลฬ:l ว:w หฮ:h อ:ʔ
+    `),
+    vowels: {
+      a: ['a', 'aː'], i: ['i', 'iː'], ɯ: ['ɯ', 'ɯː'], u: ['u', 'uː'], e: ['e', 'eː'], ɛ: ['ɛ', 'ɛː'],
+      o: ['o', 'oː'], ɔ: ['ɔ', 'ɔː'], ə: ['ɤ', 'ɤː'], ia: ['ia', 'iːa'], ɯa: ['ɯa', 'ɯːa'], ua: ['ua', 'uːa'],
+    },
+    finals: { k: 'k̚', t: 't̚', p: 'p̚', ng: 'ŋ', n: 'n', m: 'm', j: 'j', w: 'w' },
+    syllableSeparator: '.',
+  },
+};
+
+const MAI_YAMOK = '\u0E46'; // ๆ
+
+// Paiboon+ marks tone with a diacritic on the first vowel letter (mid is unmarked)
+const PAIBOON_TONE_MARKS: Record<Tone, string> = {
+  mid: '', low: '\u0300', falling: '\u0302', high: '\u0301', rising: '\u030C',
+};
+
+// IPA appends Chao tone letters
+const IPA_TONE_LETTERS: Record<Tone, string> = {
+  mid: '˧', low: '˨˩', falling: '˥˩', high: '˦˥', rising: '˩˩˦',
+};
+
+// RTGS has no tone marks; `tone` is ignored for it
+export const romanizeSyllable = (syllable: ThaiSyllable, requested: RomanizationScheme, tone?: Tone): string => {
+  const scheme = ruleScheme(requested);
+  const table = SCHEMES[scheme];
+  const initial = syllable.initialSounds.map(letter => table.initials[letter] ?? '').join('');
+  let vowel = table.vowels[syllable.vowel][syllable.long ? 1 : 0];
+  if (tone && scheme === 'paiboon') {
+    vowel = (vowel[0] + PAIBOON_TONE_MARKS[tone]).normalize('NFC') + vowel.slice(1);
+  }
+
+  let final = syllable.finalSound ? table.finals[syllable.finalSound] : '';
+  // w after i is written u in RTGS and Paiboon (นิว → niu)
+  if (scheme !== 'ipa' && syllable.finalSound === 'w' && syllable.vowel === 'i') final = 'u';
+  // Short vowels written with ะ end in a glottal stop
+  if (scheme === 'ipa' && !syllable.finalSound && !syllable.long && syllable.vowelForm.includes('ะ')) {
+    final = 'ʔ';
+  }
+
+  const toneLetters = tone && scheme === 'ipa' ? IPA_TONE_LETTERS[tone] : '';
+  return initial + vowel + final + toneLetters;
+};
+
+const romanizeWord = (word: string, scheme: RomanizationScheme): string => {
+  const repeated = word.endsWith(MAI_YAMOK);
+  const base = repeated ? word.slice(0, -1) : word;
+
+  const syllables = parseSyllables(base);
+  const tones = wordTones(syllables);
+  const romanized = syllables
+    .map((syllable, idx) => romanizeSyllable(syllable, scheme, tones[idx]))
+    .join(SCHEMES[ruleScheme(scheme)].syllableSeparator);
+  return repeated ? `${romanized} ${romanized}` : romanized;
+};
+
+const isThai = (text: string) => /[\u0E00-\u0E7F]/.test(text);
+
+// Transliterates Thai text in the given scheme. Non-Thai words pass through unchanged.
+export const romanize = (text: string, scheme: RomanizationScheme): string =>
+  segmentWords(text.replace(/[\u0E50-\u0E59]/g, d => String(d.charCodeAt(0) - 0x0E50)))
+    .map(word => (isThai(word) ? romanizeWord(word, scheme) : word))
+    .join(' ');
+
+// Transliteration to show for `thai`: the `saved` one (from the provider or a card) when the
+// scheme is "As saved" or the input has no Thai to work with, else computed in `scheme`
+export const romanizeOr = (thai: string, saved: string, scheme: RomanizationScheme): string =>
+  (scheme === 'saved' && saved.trim()) || !isThai(thai) ? saved : romanize(thai, scheme);
+
+// A card's transliteration: the user's own spelling when they edited it, else as for any Thai text
+export const cardTransliteration = (card: VocabCard, scheme: RomanizationScheme): string =>
+  card.transliterationEdited ? card.transliteration : romanizeOr(card.thai, card.transliteration, scheme);
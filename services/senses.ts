@@ -0,0 +1,15 @@
+import { VocabCard, WordSense } from "../types";
+
+// Word senses picked when saving a card
+
+// Note added by the analysis prompt, e.g. "straight (context: on time)"
+const CONTEXT_NOTE = /\s*\(context:[^)]*\)/gi;
+
+// Card gloss for the picked senses
+export const sensesSummary = (senses: WordSense[]) => senses.map(s => s.definition).join('; ');
+
+// What the card means, one entry per sense: the picked senses, or the gloss without its context note
+export const cardMeanings = (card: VocabCard): string[] => {
+  if (card.senses && card.senses.length > 0) return card.senses.map(s => s.definition);
+  return [card.english.replace(CONTEXT_NOTE, '').trim() || card.english];
+};
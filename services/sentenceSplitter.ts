@@ -0,0 +1,28 @@
+// Splits pasted paragraphs into sentences for paragraph mode.
+// Thai has no full stop: a space between two Thai words usually ends a sentence or
+// clause, so those spaces split too. Very short Thai pieces (a name, a particle)
+// are merged back into the sentence before them.
+
+const MIN_THAI_SENTENCE_LENGTH = 6;
+
+const THAI_CHAR = /[\u0E00-\u0E7F]/;
+
+export const splitSentences = (text: string): string[] => {
+  const pieces = text
+    .normalize('NFC')
+    .split(/\n+/)
+    .flatMap(line => line.split(/(?<=[.!?…])\s+|(?<=[\u0E00-\u0E7F])\s+(?=[\u0E00-\u0E7F])/))
+    .map(piece => piece.trim())
+    .filter(Boolean);
+
+  const sentences: string[] = [];
+  pieces.forEach(piece => {
+    const previous = sentences[sentences.length - 1];
+    if (previous && THAI_CHAR.test(piece) && piece.length < MIN_THAI_SENTENCE_LENGTH && THAI_CHAR.test(previous)) {
+      sentences[sentences.length - 1] = `${previous} ${piece}`;
+    } else {
+      sentences.push(piece);
+    }
+  });
+  return sentences;
+};
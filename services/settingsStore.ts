@@ -0,0 +1,44 @@
+import { SpeechProfile, UserSettings } from "../types";
+import { DEFAULT_ROMANIZATION, ROMANIZATION_SCHEMES } from "./romanization";
+import { DEFAULT_SPEECH_PROFILE, REGISTERS, SPEAKER_GENDERS } from "./politeness";
+
+// User preferences persisted in LocalStorage.
+
+const STORAGE_KEY = 'thaiMasterSettings';
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  romanization: DEFAULT_ROMANIZATION,
+  toneColors: true,
+  speakerGender: DEFAULT_SPEECH_PROFILE.gender,
+  register: DEFAULT_SPEECH_PROFILE.register,
+  studyFront: 'thai',
+};
+
+export const loadSettings = (): UserSettings => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return DEFAULT_SETTINGS;
+  try {
+    const data = JSON.parse(saved);
+    const settings = { ...DEFAULT_SETTINGS, ...data };
+    // Ignore a scheme this version doesn't know
+    if (!ROMANIZATION_SCHEMES.some(s => s.id === settings.romanization)) {
+      settings.romanization = DEFAULT_ROMANIZATION;
+    }
+    if (!SPEAKER_GENDERS.some(g => g.id === settings.speakerGender)) settings.speakerGender = DEFAULT_SETTINGS.speakerGender;
+    if (!REGISTERS.some(r => r.id === settings.register)) settings.register = DEFAULT_SETTINGS.register;
+    if (settings.studyFront !== 'thai' && settings.studyFront !== 'english') settings.studyFront = DEFAULT_SETTINGS.studyFront;
+    return settings;
+  } catch (e) {
+    console.error("Error parsing settings data", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const speechProfileOf = (settings: UserSettings): SpeechProfile => ({
+  gender: settings.speakerGender,
+  register: settings.register,
+});
+
+export const saveSettings = (settings: UserSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,79 @@
+import { CardSchedule, ReviewGrade, VocabCard } from "../types";
+
+// Spaced repetition for vocabulary cards, after SM-2 with Anki-style grades
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_MS = 10 * 60 * 1000; // A forgotten card comes back within the session
+const START_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// Self-grades for flip-card study, with their keyboard shortcuts
+export const REVIEW_GRADES: { id: ReviewGrade; label: string; key: string }[] = [
+  { id: 'again', label: 'Again', key: '1' },
+  { id: 'hard', label: 'Hard', key: '2' },
+  { id: 'good', label: 'Good', key: '3' },
+  { id: 'easy', label: 'Easy', key: '4' },
+];
+
+const newSchedule = (card: VocabCard): CardSchedule => ({
+  ease: START_EASE,
+  interval: 0,
+  due: card.dateAdded,
+  reps: 0,
+  lapses: 0,
+});
+
+export const cardDue = (card: VocabCard) => card.schedule?.due ?? card.dateAdded;
+
+export const isDue = (card: VocabCard, now = Date.now()) => cardDue(card) <= now;
+
+// Due cards, most overdue first
+export const dueCards = (cards: VocabCard[], now = Date.now()) =>
+  cards.filter(card => isDue(card, now)).sort((a, b) => cardDue(a) - cardDue(b));
+
+// Days until the next review after a successful one
+const nextInterval = (schedule: CardSchedule, grade: Exclude<ReviewGrade, 'again'>, ease: number): number => {
+  if (schedule.reps === 0) return grade === 'easy' ? 4 : 1;
+  if (schedule.reps === 1 && grade !== 'hard') return grade === 'easy' ? 8 : 6;
+  const factor = grade === 'hard' ? 1.2 : grade === 'easy' ? ease * 1.3 : ease;
+  return Math.max(schedule.interval + 1, Math.round(schedule.interval * factor));
+};
+
+// The card with its schedule updated for one review
+export const reviewCard = (card: VocabCard, grade: ReviewGrade, now = Date.now()): VocabCard => {
+  const schedule = card.schedule || newSchedule(card);
+
+  if (grade === 'again') {
+    return {
+      ...card,
+      schedule: {
+        ease: Math.max(MIN_EASE, schedule.ease - 0.2),
+        interval: 0,
+        due: now + RELEARN_MS,
+        reps: 0,
+        lapses: schedule.lapses + (schedule.reps > 0 ? 1 : 0),
+      },
+    };
+  }
+
+  // Remembering a card before it is due says little about how well it is known
+  if (schedule.due > now) return card;
+
+  const ease = grade === 'hard' ? Math.max(MIN_EASE, schedule.ease - 0.15)
+    : grade === 'easy' ? schedule.ease + 0.15
+    : schedule.ease;
+  const interval = nextInterval(schedule, grade, ease);
+  return {
+    ...card,
+    schedule: { ease, interval, due: now + interval * DAY_MS, reps: schedule.reps + 1, lapses: schedule.lapses },
+  };
+};
+
+// Short label for when a card is next due, e.g. "now", "in 3 days"
+export const dueLabel = (card: VocabCard, now = Date.now()): string => {
+  const ms = cardDue(card) - now;
+  if (ms <= 0) return 'now';
+  if (ms < DAY_MS) return ms < 60 * 60 * 1000 ? `in ${Math.ceil(ms / 60000)} min` : `in ${Math.round(ms / 3600000)} h`;
+  const days = Math.round(ms / DAY_MS);
+  return days === 1 ? 'tomorrow' : `in ${days} days`;
+};
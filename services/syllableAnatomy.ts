@@ -0,0 +1,67 @@
+import { RomanizationScheme } from "../types";
+import { FinalSound, parseSyllables } from "./thaiSyllables";
+import { segmentWords } from "./thaiSegmenter";
+import { ConsonantClass, Tone, consonantClass, isDeadSyllable, wordClasses, wordTones } from "./thaiTones";
+import { romanizeSyllable } from "./romanization";
+
+// Breaks Thai text into syllables described part by part, for the reading-lesson
+// panel. Computed locally from the script, so it works for any saved word.
+
+export interface SyllableAnatomy {
+  text: string;
+  romanized: string;
+  initialLetters: string;
+  initialClass: ConsonantClass;  // class of the written initial (of the first letter for clusters)
+  toneClass: ConsonantClass;     // class that decides the tone, after leading consonants
+  silentLeader: string;
+  vowelForm: string;
+  long: boolean;
+  finalLetter: string;
+  finalSound: FinalSound;
+  toneMark: string;
+  toneMarkName: string;
+  live: boolean;
+  tone: Tone;
+}
+
+const TONE_MARK_NAMES: Record<string, string> = {
+  '\u0E48': 'mai ek',
+  '\u0E49': 'mai tho',
+  '\u0E4A': 'mai tri',
+  '\u0E4B': 'mai chattawa',
+};
+
+export const FINAL_SOUND_LABELS: Record<Exclude<FinalSound, ''>, string> = {
+  k: '-k (stop)',
+  t: '-t (stop)',
+  p: '-p (stop)',
+  ng: '-ng',
+  n: '-n',
+  m: '-m',
+  j: '-i / -y',
+  w: '-o / -w',
+};
+
+export const analyzeSyllables = (thai: string, scheme: RomanizationScheme): SyllableAnatomy[] =>
+  segmentWords(thai).flatMap(word => {
+    const syllables = parseSyllables(word);
+    const classes = wordClasses(syllables);
+    const tones = wordTones(syllables);
+
+    return syllables.map((syllable, idx) => ({
+      text: syllable.text,
+      romanized: romanizeSyllable(syllable, scheme, tones[idx]),
+      initialLetters: syllable.initialLetters,
+      initialClass: consonantClass(syllable.initialLetters[syllable.silentLeader ? 1 : 0]),
+      toneClass: classes[idx],
+      silentLeader: syllable.silentLeader,
+      vowelForm: syllable.vowelForm,
+      long: syllable.long,
+      finalLetter: syllable.finalLetter,
+      finalSound: syllable.finalSound,
+      toneMark: syllable.toneMark,
+      toneMarkName: TONE_MARK_NAMES[syllable.toneMark] || '',
+      live: !isDeadSyllable(syllable),
+      tone: tones[idx],
+    }));
+  });
@@ -0,0 +1,427 @@
+// Bundled Thai word list used for offline segmentation and glossing.
+// One entry per line: thai|english|partOfSpeech, plus |classifier for countable nouns
+
+const RAW_LEXICON = `
+ผม|I (male speaker)|pronoun
+ฉัน|I|pronoun
+ดิฉัน|I (female speaker, formal)|pronoun
+คุณ|you|pronoun
+ท่าน|you (formal)|pronoun
+เขา|he; she|pronoun
+เธอ|she; you|pronoun
+เรา|we|pronoun
+พวกเรา|we|pronoun
+พวกเขา|they|pronoun
+มัน|it|pronoun
+ตัวเอง|oneself|pronoun
+นี่|this|pronoun
+นั่น|that|pronoun
+ครับ|polite particle (male speaker)|particle
+ค่ะ|polite particle (female speaker)|particle
+คะ|polite question particle (female speaker)|particle
+นะ|softening particle|particle
+ไหม|question particle|particle
+มั้ย|question particle (informal)|particle
+จ้ะ|friendly particle|particle
+จ้า|friendly particle|particle
+สิ|urging particle|particle
+ล่ะ|emphatic question particle|particle
+หรอก|contradicting particle|particle
+เลย|at all; right away|particle
+แล้ว|already|adverb
+กำลัง|in the process of|auxiliary
+จะ|will|auxiliary
+เคย|ever; used to|auxiliary
+ได้|can; get|verb
+ต้อง|must|auxiliary
+ควร|should|auxiliary
+อาจ|may|auxiliary
+สามารถ|be able to|auxiliary
+อยาก|want to|verb
+ไม่|not|adverb
+ไม่ใช่|not (to be)|adverb
+ใช่|yes; correct|adverb
+ยัง|still; yet|adverb
+คง|probably|adverb
+อะไร|what|pronoun
+ใคร|who|pronoun
+ที่ไหน|where|adverb
+ไหน|which; where|determiner
+เมื่อไร|when|adverb
+เมื่อไหร่|when|adverb
+ทำไม|why|adverb
+อย่างไร|how|adverb
+ยังไง|how (informal)|adverb
+เท่าไร|how much|adverb
+เท่าไหร่|how much|adverb
+กี่|how many|determiner
+กิน|eat|verb
+ทาน|eat (polite)|verb
+ดื่ม|drink|verb
+ไป|go|verb
+มา|come|verb
+ทำ|do; make|verb
+พูด|speak|verb
+ฟัง|listen|verb
+ดู|watch; look|verb
+เห็น|see|verb
+อ่าน|read|verb
+เขียน|write|verb
+นอน|sleep; lie down|verb
+ตื่น|wake up|verb
+นั่ง|sit|verb
+ยืน|stand|verb
+เดิน|walk|verb
+วิ่ง|run|verb
+ซื้อ|buy|verb
+ขาย|sell|verb
+จ่าย|pay|verb
+ให้|give; let|verb
+เอา|take; want|verb
+รู้|know|verb
+รู้จัก|know (someone)|verb
+เข้าใจ|understand|verb
+คิด|think|verb
+ชอบ|like|verb
+รัก|love|verb
+เกลียด|hate|verb
+ต้องการ|need|verb
+ช่วย|help|verb
+เรียน|study|verb
+สอน|teach|verb
+ทำงาน|work|verb
+เล่น|play|verb
+อาบน้ำ|bathe|verb
+ล้าง|wash|verb
+ขับ|drive|verb
+ขึ้น|go up; board|verb
+ลง|go down|verb
+เข้า|enter|verb
+ออก|exit|verb
+กลับ|return|verb
+ถึง|arrive; reach|verb
+รอ|wait|verb
+หา|look for|verb
+เจอ|meet; find|verb
+พบ|meet|verb
+ถาม|ask|verb
+ตอบ|answer|verb
+บอก|tell|verb
+เรียก|call|verb
+โทร|phone|verb
+ใช้|use|verb
+เปิด|open|verb
+ปิด|close|verb
+เริ่ม|begin|verb
+เสร็จ|finish|verb
+หยุด|stop|verb
+จำ|remember|verb
+ลืม|forget|verb
+เปลี่ยน|change|verb
+ส่ง|send|verb
+รับ|receive|verb
+อยู่|be at; stay|verb
+เป็น|to be|verb
+คือ|is; namely|verb
+มี|have|verb
+หัวเราะ|laugh|verb
+ร้องไห้|cry|verb
+ร้องเพลง|sing|verb
+เต้น|dance|verb
+ว่ายน้ำ|swim|verb
+ทำอาหาร|cook|verb
+ตัด|cut|verb
+แต่งงาน|marry|verb
+เดินทาง|travel|verb
+เที่ยว|go out; travel|verb
+ท่องเที่ยว|travel (for leisure)|verb
+พัก|rest|verb
+ลอง|try|verb
+ขอ|ask for; request|verb
+ไหว้|wai (greet with palms together)|verb
+ผัด|stir-fry|verb
+ต้ม|boil|verb
+ขอบคุณ|thank you|interjection
+ขอโทษ|sorry; excuse me|interjection
+ไม่เป็นไร|never mind; you're welcome|interjection
+สวัสดี|hello|interjection
+ลาก่อน|goodbye|interjection
+ยินดี|glad|adjective
+ดี|good|adjective
+เลว|bad|adjective
+ใหญ่|big|adjective
+เล็ก|small|adjective
+ยาว|long|adjective
+สั้น|short|adjective
+สูง|tall; high|adjective
+ต่ำ|low|adjective
+ร้อน|hot|adjective
+หนาว|cold (weather)|adjective
+เย็น|cool; cold|adjective
+อุ่น|warm|adjective
+ใหม่|new|adjective
+เก่า|old (things)|adjective
+แก่|old (people)|adjective
+สวย|beautiful|adjective
+หล่อ|handsome|adjective
+น่ารัก|cute|adjective
+อร่อย|delicious|adjective
+เผ็ด|spicy|adjective
+หวาน|sweet|adjective
+เค็ม|salty|adjective
+เปรี้ยว|sour|adjective
+ขม|bitter|adjective
+แพง|expensive|adjective
+ถูก|cheap; correct|adjective
+ง่าย|easy|adjective
+ยาก|difficult|adjective
+เร็ว|fast|adjective
+ช้า|slow|adjective
+ไกล|far|adjective
+ใกล้|near|adjective
+มาก|very; much|adverb
+น้อย|little; few|adjective
+เยอะ|a lot|adjective
+หิว|hungry|adjective
+อิ่ม|full (after eating)|adjective
+เหนื่อย|tired|adjective
+ง่วง|sleepy|adjective
+สบาย|comfortable|adjective
+สบายดี|fine; well|adjective
+ป่วย|sick|adjective
+สนุก|fun|adjective
+เบื่อ|bored|adjective
+ดีใจ|happy; glad|adjective
+เสียใจ|sorry; sad|adjective
+โกรธ|angry|adjective
+กลัว|afraid|adjective
+ว่าง|free; vacant|adjective
+ยุ่ง|busy|adjective
+สะอาด|clean|adjective
+สกปรก|dirty|adjective
+ถูกต้อง|correct|adjective
+ผิด|wrong|adjective
+จริง|true; real|adjective
+สำคัญ|important|adjective
+แดง|red|adjective
+ขาว|white|adjective
+ดำ|black|adjective
+เขียว|green|adjective
+เหลือง|yellow|adjective
+น้ำเงิน|dark blue|adjective
+คน|person|noun|คน
+ผู้ชาย|man|noun|คน
+ผู้หญิง|woman|noun|คน
+เด็ก|child|noun|คน
+พ่อ|father|noun|คน
+แม่|mother|noun|คน
+พี่|older sibling|noun|คน
+น้อง|younger sibling|noun|คน
+ลูก|child (offspring)|noun|คน
+เพื่อน|friend|noun|คน
+ครู|teacher|noun|คน
+นักเรียน|student|noun|คน
+หมอ|doctor|noun|คน
+ตำรวจ|police|noun|นาย
+แฟน|boyfriend; girlfriend|noun|คน
+ครอบครัว|family|noun|ครอบครัว
+บ้าน|house|noun|หลัง
+ห้อง|room|noun|ห้อง
+ห้องน้ำ|bathroom|noun|ห้อง
+โรงเรียน|school|noun|แห่ง
+โรงแรม|hotel|noun|แห่ง
+โรงพยาบาล|hospital|noun|แห่ง
+มหาวิทยาลัย|university|noun|แห่ง
+ร้าน|shop|noun|ร้าน
+ร้านอาหาร|restaurant|noun|ร้าน
+ตลาด|market|noun|แห่ง
+ถนน|road|noun|สาย
+เมือง|city|noun|เมือง
+ประเทศ|country|noun|ประเทศ
+ประเทศไทย|Thailand|noun
+ไทย|Thai|noun
+กรุงเทพ|Bangkok|noun
+กรุงเทพมหานคร|Bangkok (official name)|noun
+เชียงใหม่|Chiang Mai|noun
+ภูเก็ต|Phuket|noun
+ภาษา|language|noun|ภาษา
+ภาษาไทย|Thai language|noun
+ภาษาอังกฤษ|English language|noun
+อังกฤษ|England; English|noun
+งาน|work; job; event|noun
+เงิน|money; silver|noun
+บาท|baht|noun
+ราคา|price|noun
+อาหาร|food|noun
+ข้าว|rice|noun|จาน
+น้ำ|water|noun
+กาแฟ|coffee|noun|แก้ว
+ชา|tea|noun|แก้ว
+นม|milk|noun|กล่อง
+ขนม|snack; dessert|noun|ชิ้น
+ไก่|chicken|noun|ตัว
+หมู|pork; pig|noun|ตัว
+เนื้อ|beef; meat|noun
+ปลา|fish|noun|ตัว
+กุ้ง|shrimp|noun|ตัว
+ไข่|egg|noun|ฟอง
+ผัก|vegetable|noun
+ผลไม้|fruit|noun|ผล
+มะม่วง|mango|noun|ลูก
+กล้วย|banana|noun|ลูก
+ก๋วยเตี๋ยว|noodle soup|noun|ชาม
+แกง|curry|noun|ถ้วย
+ส้มตำ|papaya salad|noun|จาน
+หมา|dog|noun|ตัว
+แมว|cat|noun|ตัว
+นก|bird|noun|ตัว
+ช้าง|elephant|noun|เชือก
+รถ|car; vehicle|noun|คัน
+รถไฟ|train|noun|ขบวน
+รถเมล์|bus|noun|คัน
+เครื่องบิน|airplane|noun|ลำ
+เรือ|boat|noun|ลำ
+สนามบิน|airport|noun|แห่ง
+สถานี|station|noun|แห่ง
+ทะเล|sea|noun
+ภูเขา|mountain|noun|ลูก
+แม่น้ำ|river|noun|สาย
+ฝน|rain|noun
+ฟ้า|sky|noun
+อากาศ|weather; air|noun
+วัด|temple|noun|วัด
+พระ|monk|noun|รูป
+หนังสือ|book|noun|เล่ม
+หนัง|movie; leather|noun|เรื่อง
+เพลง|song|noun|เพลง
+ภาพ|picture|noun|ภาพ
+สี|color|noun
+โทรศัพท์|telephone|noun|เครื่อง
+คอมพิวเตอร์|computer|noun|เครื่อง
+เสื้อ|shirt|noun|ตัว
+กางเกง|trousers|noun|ตัว
+รองเท้า|shoes|noun|คู่
+ประตู|door|noun|บาน
+หน้าต่าง|window|noun|บาน
+โต๊ะ|table|noun|ตัว
+เก้าอี้|chair|noun|ตัว
+เตียง|bed|noun|หลัง
+แก้ว|glass|noun|ใบ
+จาน|plate|noun|ใบ
+ชาม|bowl|noun|ใบ
+ตา|eye|noun|ข้าง
+หู|ear|noun|ข้าง
+ปาก|mouth|noun
+มือ|hand|noun|ข้าง
+เท้า|foot|noun|ข้าง
+หัว|head|noun|หัว
+หัวใจ|heart|noun
+ใจ|heart; mind|noun
+ชีวิต|life|noun
+เวลา|time|noun
+วัน|day|noun
+วันนี้|today|noun
+พรุ่งนี้|tomorrow|noun
+เมื่อวาน|yesterday|noun
+ตอนนี้|now|noun
+เช้า|morning|noun
+บ่าย|afternoon|noun
+คืน|night|noun
+กลางคืน|night time|noun
+ปี|year|noun
+เดือน|month|noun
+สัปดาห์|week|noun
+อาทิตย์|week; Sunday|noun
+ชั่วโมง|hour|noun
+นาที|minute|noun
+ครั้ง|time (occurrence)|noun
+ชื่อ|name|noun
+เรื่อง|story; matter|noun|เรื่อง
+คำ|word|noun|คำ
+ประโยค|sentence|noun|ประโยค
+คำถาม|question|noun|ข้อ
+ปัญหา|problem|noun|ข้อ
+ความรัก|love|noun
+ความสุข|happiness|noun
+ความ|abstract noun prefix|prefix
+การ|verbal noun prefix|prefix
+หน้า|face; front; page|noun
+หลัง|back; behind|noun
+ซ้าย|left|noun
+ขวา|right|noun
+ตรง|straight|adjective
+ตัว|body; classifier for animals and clothes|classifier
+อัน|classifier for small things|classifier
+ใบ|leaf; classifier for containers|classifier
+เล่ม|classifier for books|classifier
+คัน|classifier for vehicles|classifier
+หนึ่ง|one|number
+สอง|two|number
+สาม|three|number
+สี่|four|number
+ห้า|five|number
+หก|six|number
+เจ็ด|seven|number
+แปด|eight|number
+เก้า|nine|number
+สิบ|ten|number
+ยี่สิบ|twenty|number
+ร้อย|hundred|number
+พัน|thousand|number
+หมื่น|ten thousand|number
+แสน|hundred thousand|number
+ล้าน|million|number
+ที่|at; that; which|preposition
+ใน|in|preposition
+บน|on|preposition
+ใต้|under|preposition
+ข้าง|beside|preposition
+กับ|with; and|preposition
+ของ|of; belonging to|preposition
+จาก|from|preposition
+สำหรับ|for|preposition
+โดย|by|preposition
+ระหว่าง|between; during|preposition
+และ|and|conjunction
+แต่|but|conjunction
+หรือ|or|conjunction
+ถ้า|if|conjunction
+เพราะ|because|conjunction
+ว่า|that; say|conjunction
+เพื่อ|in order to|conjunction
+เมื่อ|when|conjunction
+ก่อน|before|adverb
+หลังจาก|after|conjunction
+ด้วย|too; with|adverb
+ก็|also; then|adverb
+อีก|again; more|adverb
+ทุก|every|determiner
+บาง|some|determiner
+หลาย|many|determiner
+ทั้งหมด|all|determiner
+นี้|this|determiner
+นั้น|that|determiner
+โน้น|over there|determiner
+ที่นี่|here|adverb
+ที่นั่น|there|adverb
+`;
+
+export interface LexiconEntry {
+  thai: string;
+  english: string;
+  partOfSpeech: string;
+  classifier?: string;
+}
+
+// First entry wins if a word is listed twice
+const LEXICON = new Map<string, LexiconEntry>();
+RAW_LEXICON.trim().split('\n').forEach(line => {
+  const [thai, english, partOfSpeech, classifier] = line.split('|');
+  if (thai && !LEXICON.has(thai)) {
+    LEXICON.set(thai, { thai, english, partOfSpeech, ...(classifier ? { classifier } : {}) });
+  }
+});
+
+export const lookupWord = (thai: string): LexiconEntry | undefined => LEXICON.get(thai);
+
+export const lexiconWords = (): string[] => Array.from(LEXICON.keys());
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { createDictionary, segmentThai, segmentWords } from './thaiSegmenter';
+
+const dictionary = createDictionary(['ไป', 'ตลาด', 'ตา', 'ลาด', 'ฉัน', 'กิน', 'ข้าว', 'ไม่', 'ไม่ได้', 'ได้']);
+
+describe('segmentWords', () => {
+  it('splits a run into dictionary words', () => {
+    expect(segmentWords('ฉันกินข้าว', dictionary)).toEqual(['ฉัน', 'กิน', 'ข้าว']);
+  });
+
+  it('prefers the split with the fewest words', () => {
+    // ตลาด could also be read as ตา + ลาด
+    expect(segmentWords('ไปตลาด', dictionary)).toEqual(['ไป', 'ตลาด']);
+    expect(segmentWords('ไม่ได้กิน', dictionary)).toEqual(['ไม่ได้', 'กิน']);
+  });
+
+  it('keeps unknown characters together as one piece', () => {
+    expect(segmentWords('ฉันชอบมากกินข้าว', dictionary)).toEqual(['ฉัน', 'ชอบมาก', 'กิน', 'ข้าว']);
+  });
+
+  it('never splits a vowel or tone mark from its consonant', () => {
+    // ก้ is not in the dictionary; ข้าว must not be matched starting at the tone mark
+    const pieces = segmentWords('ก้ข้าว', dictionary);
+    expect(pieces).toEqual(['ก้', 'ข้าว']);
+    pieces.forEach(piece => expect(piece).not.toMatch(/^[\u0E31\u0E34-\u0E3A\u0E47-\u0E4E]/));
+  });
+
+  it('attaches ๆ to the word before it', () => {
+    expect(segmentWords('กินๆ', dictionary)).toEqual(['กินๆ']);
+  });
+
+  it('passes Latin words and numbers through unchanged', () => {
+    expect(segmentWords('ไป7-Eleven 2 ครั้ง', dictionary)).toEqual(['ไป', '7', 'Eleven', '2', 'ครั้ง']);
+    expect(segmentWords('ราคา 1,500.50 บาท', createDictionary(['ราคา', 'บาท']))).toEqual(['ราคา', '1,500.50', 'บาท']);
+  });
+
+  it('drops whitespace and punctuation', () => {
+    expect(segmentWords('  ฉัน, กิน!  ', dictionary)).toEqual(['ฉัน', 'กิน']);
+    expect(segmentWords('', dictionary)).toEqual([]);
+  });
+
+  it('uses the bundled lexicon by default', () => {
+    expect(segmentWords('ผมอยากไป')).toEqual(['ผม', 'อยาก', 'ไป']);
+  });
+});
+
+describe('segmentThai', () => {
+  it('returns segments with only thai filled', () => {
+    expect(segmentThai('ไปตลาด', dictionary)).toEqual([
+      { thai: 'ไป', transliteration: '', english: '', partOfSpeech: '' },
+      { thai: 'ตลาด', transliteration: '', english: '', partOfSpeech: '' },
+    ]);
+  });
+});
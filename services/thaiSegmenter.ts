@@ -0,0 +1,143 @@
+import { Segment } from "../types";
+import { lexiconWords } from "./thaiLexicon";
+
+// Offline Thai word segmentation by maximal matching.
+// Thai has no spaces between words, so among all ways to split a run of Thai
+// characters into dictionary words we pick the one with the fewest unknown
+// characters, then the fewest words. Pure: no I/O, no globals besides the
+// default dictionary.
+
+export interface Dictionary {
+  has: (word: string) => boolean;
+  maxLength: number;
+}
+
+export const createDictionary = (words: Iterable<string>): Dictionary => {
+  const set = new Set<string>();
+  let maxLength = 0;
+  for (const word of words) {
+    const trimmed = word.trim();
+    if (!trimmed) continue;
+    set.add(trimmed);
+    maxLength = Math.max(maxLength, trimmed.length);
+  }
+  return { has: word => set.has(word), maxLength };
+};
+
+let defaultDictionary: Dictionary | null = null;
+
+const getDefaultDictionary = (): Dictionary => {
+  if (!defaultDictionary) defaultDictionary = createDictionary(lexiconWords());
+  return defaultDictionary;
+};
+
+const isThaiChar = (ch: string) => ch >= '\u0E00' && ch <= '\u0E7F';
+
+// Vowels written before the consonant they follow in speech (เ แ โ ใ ไ)
+const isLeadingVowel = (ch: string) => ch >= '\u0E40' && ch <= '\u0E44';
+
+// Marks and vowels that can never start a word: above/below vowels, tone marks,
+// ะ า ำ ๅ and the repetition mark ๆ
+const isNonInitial = (ch: string) =>
+  ch === '\u0E30' || ch === '\u0E31' || ch === '\u0E32' || ch === '\u0E33' ||
+  (ch >= '\u0E34' && ch <= '\u0E3A') ||
+  ch === '\u0E45' || ch === '\u0E46' ||
+  (ch >= '\u0E47' && ch <= '\u0E4E');
+
+const MAI_YAMOK = '\u0E46'; // ๆ, repeats the previous word
+
+// A word may end at `end` only if it doesn't split a character cluster.
+// ๆ is the exception: it attaches to the word before it.
+const isBoundary = (text: string, end: number) =>
+  end === text.length || text[end] === MAI_YAMOK ||
+  (!isNonInitial(text[end]) && !isLeadingVowel(text[end - 1]));
+
+// End of the smallest unbreakable cluster starting at `start`
+const clusterEnd = (text: string, start: number) => {
+  let i = start;
+  while (i < text.length && isLeadingVowel(text[i])) i++;
+  i++; // base character
+  while (i < text.length && isNonInitial(text[i])) i++;
+  return Math.min(i, text.length);
+};
+
+interface Step {
+  unknown: number; // unknown characters so far
+  words: number;   // pieces so far
+  prev: number;    // start of the last piece
+  known: boolean;  // last piece is a dictionary word
+}
+
+const isBetter = (a: Step, b: Step | undefined) =>
+  !b || a.unknown < b.unknown || (a.unknown === b.unknown && a.words < b.words);
+
+// Segments one run of Thai characters (no spaces or punctuation)
+const segmentRun = (run: string, dictionary: Dictionary): string[] => {
+  const n = run.length;
+  const best: (Step | undefined)[] = new Array(n + 1);
+  best[0] = { unknown: 0, words: 0, prev: -1, known: true };
+
+  for (let i = 0; i < n; i++) {
+    const from = best[i];
+    if (!from) continue;
+
+    // Dictionary words starting here
+    const limit = Math.min(dictionary.maxLength, n - i);
+    for (let len = 1; len <= limit; len++) {
+      let end = i + len;
+      if (!dictionary.has(run.slice(i, end)) || !isBoundary(run, end)) continue;
+      if (run[end] === MAI_YAMOK) end++;
+      const step = { unknown: from.unknown, words: from.words + 1, prev: i, known: true };
+      if (isBetter(step, best[end])) best[end] = step;
+    }
+
+    // Or skip one unknown cluster
+    const end = clusterEnd(run, i);
+    const step = { unknown: from.unknown + (end - i), words: from.words + 1, prev: i, known: false };
+    if (isBetter(step, best[end])) best[end] = step;
+  }
+
+  // Walk back, merging consecutive unknown clusters into one piece
+  const pieces: string[] = [];
+  let end = n;
+  let pendingUnknownEnd = -1;
+  while (end > 0) {
+    const step = best[end]!;
+    if (step.known) {
+      if (pendingUnknownEnd >= 0) pieces.push(run.slice(end, pendingUnknownEnd));
+      pendingUnknownEnd = -1;
+      pieces.push(run.slice(step.prev, end));
+    } else if (pendingUnknownEnd < 0) {
+      pendingUnknownEnd = end;
+    }
+    end = step.prev;
+  }
+  if (pendingUnknownEnd >= 0) pieces.push(run.slice(0, pendingUnknownEnd));
+
+  return pieces.reverse();
+};
+
+// Splits text into words. Whitespace and punctuation separate words and are dropped;
+// non-Thai runs such as numbers or Latin words are kept as single pieces.
+export const segmentWords = (text: string, dictionary: Dictionary = getDefaultDictionary()): string[] => {
+  const words: string[] = [];
+  const tokens = text.normalize('NFC').match(/[\u0E00-\u0E7F]+|[A-Za-z0-9]+(?:[.,'][A-Za-z0-9]+)*/g) || [];
+
+  tokens.forEach(token => {
+    if (isThaiChar(token[0])) {
+      words.push(...segmentRun(token, dictionary));
+    } else {
+      words.push(token);
+    }
+  });
+  return words;
+};
+
+// Segment[] with only `thai` filled, for callers that add meaning and transliteration
+export const segmentThai = (text: string, dictionary?: Dictionary): Segment[] =>
+  segmentWords(text, dictionary).map(thai => ({
+    thai,
+    transliteration: '',
+    english: '',
+    partOfSpeech: '',
+  }));
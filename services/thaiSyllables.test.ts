@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { parseSyllables } from './thaiSyllables';
+import { wordTones } from './thaiTones';
+import { romanize } from './romanization';
+
+const split = (word: string) => parseSyllables(word).map(s => s.text);
+const tones = (word: string) => wordTones(parseSyllables(word));
+
+describe('parseSyllables', () => {
+  it('reads initial, vowel and final of a closed syllable', () => {
+    expect(parseSyllables('กิน')).toEqual([expect.objectContaining({
+      initialLetters: 'ก', vowel: 'i', long: false, finalLetter: 'น', finalSound: 'n', toneMark: '',
+    })]);
+  });
+
+  it('splits words with leading and inherent vowels', () => {
+    expect(split('สบาย')).toEqual(['ส', 'บาย']);
+    expect(split('เรียน')).toEqual(['เรียน']);
+    expect(split('ขนม')).toEqual(['ข', 'นม']);
+  });
+
+  it('reads true clusters and a silent leading ห', () => {
+    expect(parseSyllables('ปลา')[0].initialSounds).toEqual(['ป', 'ล']);
+    expect(parseSyllables('หมา')[0]).toMatchObject({ silentLeader: 'ห', initialSounds: ['ม'] });
+  });
+
+  it('starts a new syllable at ห or อ leading a sonorant', () => {
+    expect(split('ผู้หญิง')).toEqual(['ผู้', 'หญิง']);
+    expect(split('ที่หมอ')).toEqual(['ที่', 'หมอ']);
+    expect(split('ไม่อยาก')).toEqual(['ไม่', 'อยาก']);
+    expect(parseSyllables('ผู้หญิง')[1]).toMatchObject({ silentLeader: 'ห', initialSounds: ['ญ'], finalSound: 'ng' });
+  });
+
+  it('still reads a final before an ordinary consonant', () => {
+    expect(split('สนาม')).toEqual(['ส', 'นาม']);
+    expect(split('ตั้งใจ')).toEqual(['ตั้ง', 'ใจ']);
+  });
+
+  it('keeps letters cancelled by the thanthakhat silent', () => {
+    expect(parseSyllables('จันทร์')).toEqual([expect.objectContaining({ finalSound: 'n', silentLetters: 'ทร์' })]);
+  });
+});
+
+describe('tones', () => {
+  it('follows consonant class, tone mark and syllable type', () => {
+    expect(tones('ผู้หญิง')).toEqual(['falling', 'rising']);
+    expect(tones('ที่หมอ')).toEqual(['falling', 'rising']);
+    expect(tones('ขนม')).toEqual(['low', 'rising']);
+    expect(tones('ไม่')).toEqual(['falling']);
+  });
+});
+
+describe('romanize', () => {
+  it('romanizes across a leading ห', () => {
+    expect(romanize('ผู้หญิง', 'rtgs')).toBe('phuying');
+    expect(romanize('ที่หมอ', 'rtgs')).toBe('thi mo');
+  });
+});
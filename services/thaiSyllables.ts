@@ -0,0 +1,319 @@
+// Rule-based parser splitting a written Thai word into syllables.
+// Each syllable records its initial consonant(s), vowel, final and tone mark,
+// which is enough to romanize it and (later) to compute its tone.
+// Thai spelling has exceptions, so this is a best-effort reading of the script.
+
+export type VowelQuality = 'a' | 'i' | 'ɯ' | 'u' | 'e' | 'ɛ' | 'o' | 'ɔ' | 'ə' | 'ia' | 'ɯa' | 'ua';
+
+// Sound a final consonant makes: stops k/t/p, sonorants, or none (open syllable)
+export type FinalSound = '' | 'k' | 't' | 'p' | 'ng' | 'n' | 'm' | 'j' | 'w';
+
+export interface ThaiSyllable {
+  text: string;             // the written syllable
+  initialLetters: string;   // written initial consonant(s), including a silent leading ห/อ
+  silentLeader: string;     // 'ห' or 'อ' when it is written but not pronounced
+  initialSounds: string[];  // letters whose sounds are pronounced, e.g. ['ป','ร'], or ['ซ'] for ทร
+  vowel: VowelQuality;
+  long: boolean;
+  vowelForm: string;        // written vowel pattern with – for the consonant, e.g. 'เ–ีย'
+  finalLetter: string;      // written final consonant, '' if none
+  finalSound: FinalSound;
+  toneMark: string;         // '่' '้' '๊' '๋' or ''
+  silentLetters: string;    // letters cancelled by ์ (thanthakhat) or otherwise silent
+}
+
+const MAI_EK = '\u0E48';         // ่
+const MAI_CHATTAWA = '\u0E4B';   // ๋
+const THANTHAKHAT = '\u0E4C';    // ์
+const SARA_A = '\u0E30';        // ะ
+const MAI_HAN_AKAT = '\u0E31';  // ั
+const SARA_AA = '\u0E32';       // า
+const SARA_AM = '\u0E33';       // ำ
+const SARA_I = '\u0E34';        // ิ
+const SARA_II = '\u0E35';       // ี
+const SARA_UE = '\u0E36';       // ึ
+const SARA_UEE = '\u0E37';      // ื
+const SARA_U = '\u0E38';        // ุ
+const SARA_UU = '\u0E39';       // ู
+const MAITAIKHU = '\u0E47';     // ็
+const RU = '\u0E24';            // ฤ
+const LU = '\u0E26';            // ฦ
+const O_ANG = '\u0E2D';         // อ
+
+export const isConsonant = (ch: string | undefined) =>
+  !!ch && ch >= '\u0E01' && ch <= '\u0E2E' && ch !== RU && ch !== LU;
+
+const isLeadingVowel = (ch: string | undefined) => !!ch && ch >= '\u0E40' && ch <= '\u0E44';
+
+const isUpperLowerVowel = (ch: string | undefined) =>
+  ch === MAI_HAN_AKAT || ch === MAITAIKHU || (!!ch && ch >= SARA_I && ch <= SARA_UU);
+
+export const isToneMark = (ch: string | undefined) => !!ch && ch >= MAI_EK && ch <= MAI_CHATTAWA;
+
+// Marks that show the consonant before them starts a syllable rather than ends one
+const attachesToConsonant = (ch: string | undefined) =>
+  isUpperLowerVowel(ch) || isToneMark(ch) || ch === SARA_A || ch === SARA_AA || ch === SARA_AM;
+
+// Low consonants without a high-class partner; a silent ห in front makes them high
+export const LOW_SONORANTS = new Set(['ง', 'ญ', 'น', 'ม', 'ย', 'ร', 'ล', 'ว']);
+
+const TRUE_CLUSTERS = new Set([
+  'กร', 'กล', 'กว', 'ขร', 'ขล', 'ขว', 'คร', 'คล', 'คว', 'ตร', 'ปร', 'ปล', 'พร', 'พล', 'ผล',
+]);
+
+// Written as clusters but pronounced as one sound (ทร is read as ซ)
+const FALSE_CLUSTERS = new Set(['ทร', 'จร', 'ซร', 'ศร', 'สร']);
+
+const FINAL_SOUNDS: Record<string, FinalSound> = {};
+const addFinals = (letters: string, sound: FinalSound) => {
+  for (const letter of letters) FINAL_SOUNDS[letter] = sound;
+};
+addFinals('กขคฆ', 'k');
+addFinals('จชซฌฎฏฐฑฒดตถทธศษส', 't');
+addFinals('บปพฟภ', 'p');
+addFinals('ง', 'ng');
+addFinals('ญณนรลฬ', 'n');
+addFinals('ม', 'm');
+addFinals('ย', 'j');
+addFinals('ว', 'w');
+
+const canCombine = (c1: string, c2: string) =>
+  (c1 === 'ห' && LOW_SONORANTS.has(c2)) ||
+  (c1 === O_ANG && c2 === 'ย') ||
+  TRUE_CLUSTERS.has(c1 + c2) ||
+  FALSE_CLUSTERS.has(c1 + c2);
+
+interface VowelReading {
+  vowel: VowelQuality;
+  long: boolean;
+  form: string;
+  finalSound?: FinalSound; // built into the vowel, e.g. ไ– (ai) or –ำ (am)
+  allowsFinal: boolean;
+}
+
+export const parseSyllables = (word: string): ThaiSyllable[] => {
+  const w = word.normalize('NFC');
+  const n = w.length;
+  const syllables: ThaiSyllable[] = [];
+  let i = 0;
+
+  while (i < n) {
+    const start = i;
+
+    // ฤ / ฦ are vowels of their own, read "rue" / "lue"
+    if (w[i] === RU || w[i] === LU) {
+      i++;
+      if (w[i] === '\u0E45') i++; // ๅ
+      syllables.push({
+        text: w.slice(start, i),
+        initialLetters: w[start],
+        silentLeader: '',
+        initialSounds: [w[start] === RU ? 'ร' : 'ล'],
+        vowel: 'ɯ',
+        long: false,
+        vowelForm: w[start],
+        finalLetter: '',
+        finalSound: '',
+        toneMark: '',
+        silentLetters: '',
+      });
+      continue;
+    }
+
+    const lead = isLeadingVowel(w[i]) ? w[i++] : '';
+    if (!isConsonant(w[i])) {
+      // Stray mark or symbol: skip it
+      i = Math.max(i, start + 1);
+      continue;
+    }
+
+    // 1. Initial consonant(s)
+    const c1 = w[i++];
+    let initialLetters = c1;
+    let initialSounds = [c1];
+    let silentLeader = '';
+
+    const c2 = w[i];
+    // รร after a consonant is a vowel (กรรม), not part of a cluster
+    if (isConsonant(c2) && canCombine(c1, c2) && !(c2 === 'ร' && w[i + 1] === 'ร')) {
+      const afterC2 = w[i + 1];
+      // Only combine when c2 carries this syllable's vowel (or is wrapped by a leading vowel),
+      // or when the pair is followed by a lone final (e.g. กลม, หมด)
+      const carriesVowel = !!lead || attachesToConsonant(afterC2) || afterC2 === O_ANG || afterC2 === 'ว';
+      const closedByFinal = isConsonant(afterC2) && !attachesToConsonant(w[i + 2]) && w[i + 2] !== THANTHAKHAT;
+      if (carriesVowel || closedByFinal) {
+        i++;
+        initialLetters = c1 + c2;
+        if (c1 === 'ห' && LOW_SONORANTS.has(c2)) {
+          silentLeader = 'ห';
+          initialSounds = [c2];
+        } else if (c1 === O_ANG && c2 === 'ย') {
+          silentLeader = O_ANG;
+          initialSounds = [c2];
+        } else if (FALSE_CLUSTERS.has(c1 + c2)) {
+          initialSounds = [c1 === 'ท' ? 'ซ' : c1];
+        } else {
+          initialSounds = [c1, c2];
+        }
+      }
+    }
+
+    // 2. Vowel marks above/below and tone mark (either order)
+    let upper = '';
+    let toneMark = '';
+    while (i < n) {
+      if (!upper && isUpperLowerVowel(w[i])) upper = w[i++];
+      else if (!toneMark && isToneMark(w[i])) toneMark = w[i++];
+      else break;
+    }
+
+    // 3. Vowel
+    let reading: VowelReading;
+    let implicitFinal = '';
+    const next = w[i];
+
+    if (lead === 'เ') {
+      if (upper === SARA_II && w[i] === 'ย') {
+        i++;
+        if (w[i] === SARA_A) { i++; reading = { vowel: 'ia', long: false, form: 'เ–ียะ', allowsFinal: false }; }
+        else reading = { vowel: 'ia', long: true, form: 'เ–ีย', allowsFinal: true };
+      } else if (upper === SARA_UEE && w[i] === O_ANG) {
+        i++;
+        if (w[i] === SARA_A) { i++; reading = { vowel: 'ɯa', long: false, form: 'เ–ือะ', allowsFinal: false }; }
+        else reading = { vowel: 'ɯa', long: true, form: 'เ–ือ', allowsFinal: true };
+      } else if (upper === SARA_I) {
+        reading = { vowel: 'ə', long: true, form: 'เ–ิ', allowsFinal: true };
+      } else if (upper === MAITAIKHU) {
+        reading = { vowel: 'e', long: false, form: 'เ–็', allowsFinal: true };
+      } else if (next === SARA_AA && w[i + 1] === SARA_A) {
+        i += 2;
+        reading = { vowel: 'ɔ', long: false, form: 'เ–าะ', allowsFinal: false };
+      } else if (next === SARA_AA) {
+        i++;
+        reading = { vowel: 'a', long: false, form: 'เ–า', finalSound: 'w', allowsFinal: false };
+      } else if (next === O_ANG && w[i + 1] === SARA_A) {
+        i += 2;
+        reading = { vowel: 'ə', long: false, form: 'เ–อะ', allowsFinal: false };
+      } else if (next === O_ANG) {
+        i++;
+        reading = { vowel: 'ə', long: true, form: 'เ–อ', allowsFinal: true };
+      } else if (next === SARA_A) {
+        i++;
+        reading = { vowel: 'e', long: false, form: 'เ–ะ', allowsFinal: false };
+      } else if (next === 'ย' && !attachesToConsonant(w[i + 1])) {
+        i++;
+        reading = { vowel: 'ə', long: true, form: 'เ–ย', finalSound: 'j', allowsFinal: false };
+        implicitFinal = 'ย';
+      } else {
+        reading = { vowel: 'e', long: true, form: 'เ–', allowsFinal: true };
+      }
+    } else if (lead === 'แ') {
+      if (upper === MAITAIKHU) reading = { vowel: 'ɛ', long: false, form: 'แ–็', allowsFinal: true };
+      else if (next === SARA_A) { i++; reading = { vowel: 'ɛ', long: false, form: 'แ–ะ', allowsFinal: false }; }
+      else reading = { vowel: 'ɛ', long: true, form: 'แ–', allowsFinal: true };
+    } else if (lead === 'โ') {
+      if (next === SARA_A) { i++; reading = { vowel: 'o', long: false, form: 'โ–ะ', allowsFinal: false }; }
+      else reading = { vowel: 'o', long: true, form: 'โ–', allowsFinal: true };
+    } else if (lead === 'ใ' || lead === 'ไ') {
+      reading = { vowel: 'a', long: false, form: `${lead}–`, finalSound: 'j', allowsFinal: false };
+    } else if (upper === MAI_HAN_AKAT) {
+      if (next === 'ว') {
+        i++;
+        if (w[i] === SARA_A) { i++; reading = { vowel: 'ua', long: false, form: '–ัวะ', allowsFinal: false }; }
+        else reading = { vowel: 'ua', long: true, form: '–ัว', allowsFinal: true };
+      } else {
+        reading = { vowel: 'a', long: false, form: '–ั', allowsFinal: true };
+      }
+    } else if (upper === MAITAIKHU) {
+      if (next === O_ANG) i++;
+      reading = { vowel: 'ɔ', long: false, form: '–็อ', allowsFinal: true };
+    } else if (upper === SARA_UEE) {
+      if (next === O_ANG) i++;
+      reading = { vowel: 'ɯ', long: true, form: next === O_ANG ? '–ือ' : '–ื', allowsFinal: true };
+    } else if (upper) {
+      const simple: Record<string, [VowelQuality, boolean]> = {
+        [SARA_I]: ['i', false],
+        [SARA_II]: ['i', true],
+        [SARA_UE]: ['ɯ', false],
+        [SARA_U]: ['u', false],
+        [SARA_UU]: ['u', true],
+      };
+      const [vowel, long] = simple[upper];
+      reading = { vowel, long, form: `–${upper}`, allowsFinal: true };
+    } else if (next === SARA_A) {
+      i++;
+      reading = { vowel: 'a', long: false, form: '–ะ', allowsFinal: false };
+    } else if (next === SARA_AA) {
+      i++;
+      reading = { vowel: 'a', long: true, form: '–า', allowsFinal: true };
+    } else if (next === SARA_AM) {
+      i++;
+      reading = { vowel: 'a', long: false, form: '–ำ', finalSound: 'm', allowsFinal: false };
+    } else if (next === O_ANG && !attachesToConsonant(w[i + 1])) {
+      i++;
+      reading = { vowel: 'ɔ', long: true, form: '–อ', allowsFinal: true };
+    } else if (next === 'ร' && w[i + 1] === 'ร') {
+      // รร: กรรม (kam), สรร (san)
+      i += 2;
+      reading = { vowel: 'a', long: false, form: '–รร', allowsFinal: true };
+      if (!isConsonant(w[i]) || attachesToConsonant(w[i + 1])) {
+        reading.finalSound = 'n';
+        reading.allowsFinal = false;
+      }
+    } else if (next === 'ว' && isConsonant(w[i + 1]) && !attachesToConsonant(w[i + 2])) {
+      // สวน (suan): ว acts as the vowel ua
+      i++;
+      reading = { vowel: 'ua', long: true, form: '–ว–', allowsFinal: true };
+    } else if (isConsonant(next) && !attachesToConsonant(w[i + 1]) && w[i + 1] !== THANTHAKHAT) {
+      // No written vowel and a possible final: inherent o (คน) unless the word
+      // continues with another bare consonant, where the inherent a reads better (ขนม)
+      const afterNext = w[i + 1];
+      const bareRunFollows = isConsonant(afterNext) && !attachesToConsonant(w[i + 2]) &&
+        afterNext !== O_ANG && !isLeadingVowel(afterNext);
+      reading = bareRunFollows
+        ? { vowel: 'a', long: false, form: '–', allowsFinal: false }
+        : { vowel: 'o', long: false, form: '–', allowsFinal: true };
+    } else {
+      // Bare consonant starting a longer word: inherent short a (สบาย, ตลาด)
+      reading = { vowel: 'a', long: false, form: '–', allowsFinal: false };
+    }
+
+    // 4. Final consonant. A ห or อ leading the next syllable (ผู้|หญิง, ที่|หมอ) is not a final.
+    let finalLetter = implicitFinal;
+    let finalSound: FinalSound = reading.finalSound || '';
+    const leadsCluster = (w[i] === 'ห' || w[i] === O_ANG) && isConsonant(w[i + 1]) && canCombine(w[i], w[i + 1]);
+    if (reading.allowsFinal && isConsonant(w[i]) && w[i] !== O_ANG && !leadsCluster &&
+        !attachesToConsonant(w[i + 1]) && w[i + 1] !== THANTHAKHAT) {
+      finalLetter = w[i++];
+      finalSound = FINAL_SOUNDS[finalLetter] || '';
+    }
+
+    // 5. Silent letters: consonants cancelled by ์ (จันทร์, พันธุ์), or ย after ไ (ไทย)
+    let silentLetters = '';
+    let k = i;
+    while (k < n && k - i < 2 && isConsonant(w[k])) k++;
+    if (k < n && k > i && (w[k] === SARA_I || w[k] === SARA_U) && w[k + 1] === THANTHAKHAT) k++;
+    if (k > i && w[k] === THANTHAKHAT) {
+      silentLetters = w.slice(i, k + 1);
+      i = k + 1;
+    } else if ((lead === 'ไ') && w[i] === 'ย' && (i + 1 === n || !attachesToConsonant(w[i + 1]))) {
+      silentLetters = w[i++];
+    }
+
+    syllables.push({
+      text: w.slice(start, i),
+      initialLetters,
+      silentLeader,
+      initialSounds,
+      vowel: reading.vowel,
+      long: reading.long,
+      vowelForm: reading.form,
+      finalLetter,
+      finalSound,
+      toneMark,
+      silentLetters,
+    });
+  }
+
+  return syllables;
+};
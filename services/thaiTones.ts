@@ -0,0 +1,95 @@
+import { LOW_SONORANTS, ThaiSyllable, parseSyllables } from "./thaiSyllables";
+import { segmentWords } from "./thaiSegmenter";
+
+// Derives the tone of each written syllable from consonant class, tone mark,
+// vowel length and whether the syllable is live or dead.
+
+export type Tone = 'mid' | 'low' | 'falling' | 'high' | 'rising';
+export type ConsonantClass = 'mid' | 'high' | 'low';
+
+export const TONES: Tone[] = ['mid', 'low', 'falling', 'high', 'rising'];
+
+const MID_CLASS = new Set('กจฎฏดตบปอ');
+const HIGH_CLASS = new Set('ขฃฉฐถผฝศษสห');
+
+export const consonantClass = (letter: string): ConsonantClass =>
+  MID_CLASS.has(letter) ? 'mid' : HIGH_CLASS.has(letter) ? 'high' : 'low';
+
+// Dead syllables end in a stop (k/t/p) or in a short vowel with no final
+export const isDeadSyllable = (syllable: ThaiSyllable) =>
+  syllable.finalSound === 'k' || syllable.finalSound === 't' || syllable.finalSound === 'p' ||
+  (!syllable.finalSound && !syllable.long);
+
+// The first written letter decides the class by default: a silent ห makes a low sonorant
+// high, a silent อ makes ย mid, and clusters follow their first consonant
+export const syllableTone = (
+  syllable: ThaiSyllable,
+  cls: ConsonantClass = consonantClass(syllable.initialLetters[0])
+): Tone => {
+  const dead = isDeadSyllable(syllable);
+
+  switch (syllable.toneMark) {
+    case '\u0E48': // mai ek
+      return cls === 'low' ? 'falling' : 'low';
+    case '\u0E49': // mai tho
+      return cls === 'low' ? 'high' : 'falling';
+    case '\u0E4A': // mai tri
+      return 'high';
+    case '\u0E4B': // mai chattawa
+      return 'rising';
+  }
+
+  if (!dead) return cls === 'high' ? 'rising' : 'mid';
+  if (cls !== 'low') return 'low';
+  return syllable.long ? 'falling' : 'high';
+};
+
+// Class governing the tone of each syllable of one word. A bare high or mid consonant read with
+// an inherent a lends its class to a following low sonorant (ขนม khà-nǒm, สนุก sà-nùk).
+export const wordClasses = (syllables: ThaiSyllable[]): ConsonantClass[] =>
+  syllables.map((syllable, idx) => {
+    const prev = syllables[idx - 1];
+    const leadsNext = prev && prev.vowelForm === '–' && !prev.finalSound && prev.initialLetters.length === 1 &&
+      consonantClass(prev.initialLetters) !== 'low';
+    if (leadsNext && syllable.initialLetters.length === 1 && LOW_SONORANTS.has(syllable.initialLetters)) {
+      return consonantClass(prev.initialLetters);
+    }
+    return consonantClass(syllable.initialLetters[0]);
+  });
+
+export const wordTones = (syllables: ThaiSyllable[]): Tone[] => {
+  const classes = wordClasses(syllables);
+  return syllables.map((syllable, idx) => syllableTone(syllable, classes[idx]));
+};
+
+export interface ToneRun {
+  text: string;
+  tone?: Tone; // undefined for spaces, punctuation and non-Thai text
+}
+
+// Splits text into runs covering every character, Thai syllables tagged with their tone
+export const toneRuns = (text: string): ToneRun[] => {
+  const runs: ToneRun[] = [];
+  const source = text.normalize('NFC');
+  let cursor = 0;
+
+  const pushPlain = (end: number) => {
+    if (end > cursor) runs.push({ text: source.slice(cursor, end) });
+    cursor = Math.max(cursor, end);
+  };
+
+  segmentWords(source).forEach(word => {
+    const syllables = parseSyllables(word);
+    const tones = wordTones(syllables);
+    syllables.forEach((syllable, idx) => {
+      const at = source.indexOf(syllable.text, cursor);
+      if (at < 0) return;
+      pushPlain(at);
+      runs.push({ text: syllable.text, tone: tones[idx] });
+      cursor = at + syllable.text.length;
+    });
+  });
+  pushPlain(source.length);
+
+  return runs;
+};
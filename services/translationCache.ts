@@ -0,0 +1,105 @@
+import { TranslationResult } from "../types";
+
+// Persistent IndexedDB cache of full TranslationResult objects, keyed by normalized input.
+// Every function fails soft: if IndexedDB is unavailable the app simply behaves uncached.
+
+const DB_NAME = 'tuktukThaiCache';
+const DB_VERSION = 1;
+const STORE = 'translations';
+
+const TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const MAX_ENTRIES = 500;
+
+interface CacheEntry {
+  key: string;
+  result: TranslationResult;
+  savedAt: number;
+  lastAccessed: number;
+}
+
+// "  Hello   World " and "hello world" share one entry
+export const normalizeCacheKey = (text: string) =>
+  text.normalize('NFC').trim().replace(/\s+/g, ' ').toLowerCase();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('lastAccessed', 'lastAccessed');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const isExpired = (entry: CacheEntry) => Date.now() - entry.savedAt > TTL_MS;
+
+export const getCachedTranslation = async (text: string): Promise<TranslationResult | null> => {
+  try {
+    const db = await openDb();
+    const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+    const entry: CacheEntry | undefined = await promisify(store.get(normalizeCacheKey(text)));
+    if (!entry) return null;
+
+    if (isExpired(entry)) {
+      await promisify(store.delete(entry.key));
+      return null;
+    }
+
+    // Touch so size eviction drops the least recently used entries first
+    await promisify(store.put({ ...entry, lastAccessed: Date.now() }));
+    return entry.result;
+  } catch (error) {
+    console.warn("Translation cache read failed", error);
+    return null;
+  }
+};
+
+export const putCachedTranslation = async (result: TranslationResult): Promise<void> => {
+  try {
+    const db = await openDb();
+    const now = Date.now();
+    const entry: CacheEntry = {
+      key: normalizeCacheKey(result.originalText),
+      result,
+      savedAt: now,
+      lastAccessed: now,
+    };
+    await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).put(entry));
+    await pruneCache();
+  } catch (error) {
+    console.warn("Translation cache write failed", error);
+  }
+};
+
+// Removes expired entries, then the least recently used ones beyond MAX_ENTRIES
+const pruneCache = async (): Promise<void> => {
+  const db = await openDb();
+  const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+  const entries: CacheEntry[] = await promisify(store.index('lastAccessed').getAll());
+
+  // getAll on the index returns entries sorted by lastAccessed (oldest first)
+  const expired = entries.filter(isExpired);
+  const live = entries.filter(entry => !isExpired(entry));
+  const overflow = live.slice(0, Math.max(0, live.length - MAX_ENTRIES));
+
+  await Promise.all([...expired, ...overflow].map(entry => promisify(store.delete(entry.key))));
+};
@@ -0,0 +1,101 @@
+import { isAbortError, isTimeoutError } from "./abortable";
+
+// Typed errors for the translate pipeline, so the UI can explain what went wrong
+// and retry only the failures that may go away on their own.
+
+export type TranslationErrorKind = 'network' | 'quota' | 'auth' | 'malformed' | 'safety' | 'timeout' | 'unknown';
+
+const RETRYABLE_KINDS = new Set<TranslationErrorKind>(['network', 'quota', 'malformed', 'timeout']);
+
+export const ERROR_MESSAGES: Record<TranslationErrorKind, string> = {
+  network: "Couldn't reach the translation service. Check your connection, or whether the request is blocked (CORS).",
+  quota: 'The translation quota is used up for now. Try again in a moment.',
+  auth: 'The API key is missing or invalid.',
+  malformed: 'The translation service sent back a response that could not be read.',
+  safety: 'The request was blocked by the safety filters.',
+  timeout: 'The request took too long and was stopped.',
+  unknown: 'Something went wrong.',
+};
+
+export class TranslationError extends Error {
+  readonly kind: TranslationErrorKind;
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(kind: TranslationErrorKind, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'TranslationError';
+    this.kind = kind;
+    this.retryable = RETRYABLE_KINDS.has(kind);
+    this.cause = cause;
+  }
+}
+
+// Maps an HTTP status (Google Translate or our proxy) to an error
+export const errorForStatus = (status: number, message: string): TranslationError => {
+  if (status === 429) return new TranslationError('quota', message);
+  if (status === 401 || status === 403 || /API_KEY/.test(message)) return new TranslationError('auth', message);
+  if (status === 422) return new TranslationError('safety', message);
+  if (/invalid JSON/i.test(message)) return new TranslationError('malformed', message);
+  if (status >= 500) return new TranslationError('network', message);
+  return new TranslationError('unknown', message);
+};
+
+// Turns anything thrown by a provider (fetch, the Gemini SDK, JSON.parse) into a TranslationError.
+// AbortErrors are not classified: callers rethrow them untouched.
+export const toTranslationError = (error: unknown): TranslationError => {
+  if (error instanceof TranslationError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (isTimeoutError(error)) return new TranslationError('timeout', message, error);
+  if (error instanceof SyntaxError) return new TranslationError('malformed', message, error);
+
+  // Gemini SDK ApiError carries the HTTP status
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : 0;
+  if (status) return errorForStatus(status, message);
+
+  if (/RESOURCE_EXHAUSTED|quota|\b429\b/i.test(message)) return new TranslationError('quota', message, error);
+  if (/API key|API_KEY|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return new TranslationError('auth', message, error);
+  if (/SAFETY|blocked/i.test(message)) return new TranslationError('safety', message, error);
+  if (error instanceof TypeError || /Failed to fetch|NetworkError|Load failed/i.test(message)) {
+    return new TranslationError('network', message, error);
+  }
+  return new TranslationError('unknown', message, error);
+};
+
+const MAX_RETRIES = 2;
+const RETRY_BASE_MS = 1000; // 1s, then 2s
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Retries `run` on retryable errors with backoff. Aborting `signal` stops waiting and rethrows.
+export const withRetry = async <T>(run: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const typed = toTranslationError(error);
+      if (!typed.retryable || attempt >= MAX_RETRIES) throw typed;
+
+      const delay = RETRY_BASE_MS * 2 ** attempt * (0.8 + Math.random() * 0.4); // with jitter
+      console.warn(`Retrying after ${typed.kind} error in ${Math.round(delay)}ms`, typed);
+      await sleep(delay, signal);
+    }
+  }
+};
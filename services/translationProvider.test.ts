@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { analyzeText, enrichSegments, explainGrammar, lookupSenses } from './geminiService';
+import { MAX_ENRICH_WORDS } from './prompts';
+import { TranslationError } from './translationErrors';
+import { runProviderChain } from './translationProvider';
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// A proxy that always fails, so the chain ends at the offline `local` provider
+describe('runProviderChain offline fallback', () => {
+  const fetchSpy = vi.fn<(...args: unknown[]) => Promise<Response>>();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubEnv('TRANSLATION_PROVIDERS', 'proxy');
+    vi.stubEnv('API_PROXY_URL', 'http://proxy.test');
+    vi.stubGlobal('fetch', fetchSpy);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    fetchSpy.mockReset();
+  });
+
+  const settle = async <T>(promise: Promise<T>) => {
+    await vi.runAllTimersAsync();
+    return promise;
+  };
+
+  it('retries transient remote errors before answering offline', async () => {
+    fetchSpy.mockImplementation(async () => jsonResponse(429, { error: 'Too many requests' }));
+
+    const analysis = await settle(analyzeText('ผมกินข้าว', 'I eat rice'));
+
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+    expect(analysis.isOffline).toBe(true);
+    expect(analysis.segments.map(s => s.thai)).toEqual(['ผม', 'กิน', 'ข้าว']);
+    expect(analysis.remoteError).toBeInstanceOf(TranslationError);
+    expect(analysis.remoteError?.kind).toBe('quota');
+  });
+
+  it('falls back at once on errors that retrying will not fix', async () => {
+    fetchSpy.mockImplementation(async () => jsonResponse(401, { error: 'API_KEY invalid' }));
+
+    const analysis = await settle(analyzeText('ผมกินข้าว', 'I eat rice'));
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(analysis.remoteError?.kind).toBe('auth');
+  });
+
+  it('returns the remote answer when a retry succeeds', async () => {
+    fetchSpy
+      .mockImplementationOnce(async () => jsonResponse(503, { error: 'Unavailable' }))
+      .mockImplementation(async () => jsonResponse(200, {
+        segments: [{ thai: 'กิน', transliteration: 'kin', english: 'eat', partOfSpeech: 'verb' }],
+        exampleSentenceThai: '',
+        exampleSentenceEnglish: '',
+      }));
+
+    const analysis = await settle(analyzeText('กิน', 'eat'));
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(analysis.isOffline).toBeUndefined();
+    expect(analysis.remoteError).toBeUndefined();
+  });
+
+  it('reports the remote error for words the offline dictionary lacks', async () => {
+    fetchSpy.mockImplementation(async () => jsonResponse(401, { error: 'API_KEY invalid' }));
+
+    const lookup = lookupSenses('ฟลุ๊บ', 'ฟลุ๊บอร่อย');
+    lookup.catch(() => {});
+    await vi.runAllTimersAsync();
+
+    await expect(lookup).rejects.toMatchObject({ kind: 'auth' });
+  });
+
+  it('answers define from the offline dictionary when it has the word', async () => {
+    fetchSpy.mockImplementation(async () => jsonResponse(401, { error: 'API_KEY invalid' }));
+
+    const senses = await settle(lookupSenses('กิน', 'กินข้าว'));
+
+    expect(senses).toEqual([expect.objectContaining({ definition: 'eat', partOfSpeech: 'verb' })]);
+  });
+
+  it('sends long texts to /api/synonyms in parts the server accepts', async () => {
+    fetchSpy.mockImplementation(async (_url, init) => {
+      const { segments } = JSON.parse(String((init as RequestInit).body));
+      return jsonResponse(200, segments.map((s: object) => ({ ...s, synonyms: ['x'], antonyms: [], relatedWords: [], collocations: [] })));
+    });
+    const segments = Array.from({ length: MAX_ENRICH_WORDS * 2 + 1 }, (_, idx) => (
+      { thai: `กิน${idx}`, transliteration: 'kin', english: 'eat', partOfSpeech: 'verb' }
+    ));
+
+    const enriched = await settle(enrichSegments(segments));
+
+    const sizes = fetchSpy.mock.calls.map(([, init]) => JSON.parse(String((init as RequestInit).body)).segments.length);
+    expect(sizes).toEqual([MAX_ENRICH_WORDS, MAX_ENRICH_WORDS, 1]);
+    expect(enriched.map(s => s.thai)).toEqual(segments.map(s => s.thai));
+    expect(enriched.every(s => s.synonyms?.[0] === 'x')).toBe(true);
+  });
+
+  it('explains grammar by rule when the remote providers fail, keeping their error', async () => {
+    fetchSpy.mockImplementation(async () => jsonResponse(401, { error: 'API_KEY invalid' }));
+    const segments = [
+      { thai: 'กิน', transliteration: 'kin', english: 'eat', partOfSpeech: 'verb' },
+      { thai: 'ไหม', transliteration: 'mai', english: 'question particle', partOfSpeech: 'particle' },
+    ];
+
+    const grammar = await settle(explainGrammar('กินไหม', 'Will you eat?', segments));
+
+    expect(grammar.isOffline).toBe(true);
+    expect(grammar.points.some(p => p.segmentIndices.includes(1))).toBe(true);
+    expect(grammar.remoteError?.kind).toBe('auth');
+  });
+
+  it('rejects with a TranslationError when no provider can do the operation', async () => {
+    vi.stubEnv('TRANSLATION_PROVIDERS', 'local');
+
+    const error = await runProviderChain('ocr', (provider, signal) => provider.ocr!({ data: '', mimeType: 'image/png' }, signal))
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(TranslationError);
+    expect(error.kind).toBe('auth');
+  });
+});
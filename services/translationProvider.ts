@@ -0,0 +1,134 @@
+import { CardRevision, CardRevisionRequest, ExampleRequest, GeneratedExample, GrammarAnalysis, ImageInput, OcrLine, QuickTranslation, Segment, SpeechProfile, TextAnalysis, WordSense } from "../types";
+import { googleTranslateProvider } from "./providers/googleTranslateProvider";
+import { geminiProvider } from "./providers/geminiProvider";
+import { mockProvider } from "./providers/mockProvider";
+import { getProxyBaseUrl, proxyProvider } from "./providers/proxyProvider";
+import { localProvider } from "./providers/localProvider";
+import { isAbortError, raceAbort, withTimeout } from "./abortable";
+import { TranslationError, toTranslationError, withRetry } from "./translationErrors";
+
+export type ProviderId = 'google' | 'gemini' | 'proxy' | 'mock' | 'local';
+
+// A backend able to perform some or all of the translate pipeline steps.
+// Operations a provider does not support are simply left undefined.
+// Network-backed operations should pass `signal` on to fetch / the SDK so cancelled work stops.
+// `profile` (speaker gender and register) shapes Thai output where the backend supports it.
+export interface TranslationProvider {
+  id: ProviderId;
+  translate?: (text: string, signal?: AbortSignal, profile?: SpeechProfile) => Promise<QuickTranslation>;
+  analyze?: (original: string, translated: string, signal?: AbortSignal, profile?: SpeechProfile) => Promise<TextAnalysis>;
+  enrich?: (segments: Segment[], signal?: AbortSignal) => Promise<Segment[]>;
+  examples?: (request: ExampleRequest, signal?: AbortSignal, profile?: SpeechProfile) => Promise<GeneratedExample[]>;
+  define?: (word: string, context: string, signal?: AbortSignal) => Promise<WordSense[]>;
+  grammar?: (thai: string, english: string, segments: Segment[], signal?: AbortSignal) => Promise<GrammarAnalysis>;
+  ocr?: (image: ImageInput, signal?: AbortSignal) => Promise<OcrLine[]>;
+  revise?: (card: CardRevisionRequest, signal?: AbortSignal, profile?: SpeechProfile) => Promise<CardRevision>;
+}
+
+export type ProviderOperation = 'translate' | 'analyze' | 'enrich' | 'examples' | 'define' | 'grammar' | 'ocr' | 'revise';
+
+// Time each provider gets per attempt before the chain moves on to the next one
+const STEP_TIMEOUT_MS: Record<ProviderOperation, number> = {
+  translate: 10_000,
+  analyze: 30_000,
+  enrich: 30_000,
+  examples: 20_000,
+  define: 15_000,
+  grammar: 20_000,
+  ocr: 30_000,
+  revise: 20_000,
+};
+
+const PROVIDERS: Record<ProviderId, TranslationProvider> = {
+  google: googleTranslateProvider,
+  gemini: geminiProvider,
+  proxy: proxyProvider,
+  mock: mockProvider,
+  local: localProvider,
+};
+
+// Google Translate first for speed, Gemini as fallback and for the deeper steps
+const DEFAULT_CHAIN: ProviderId[] = ['google', 'gemini'];
+
+// With a proxy configured every step goes through server.js, so no key is needed in the bundle
+const DEFAULT_PROXY_CHAIN: ProviderId[] = ['proxy'];
+
+const isProviderId = (id: string): id is ProviderId => id in PROVIDERS;
+
+// Reads the provider chain from TRANSLATION_PROVIDERS (e.g. "mock" or "google,gemini").
+// The offline dictionary provider is always appended as the last resort (see runProviderChain).
+export const getProviderChain = (): TranslationProvider[] => {
+  const configured = String(process.env.TRANSLATION_PROVIDERS || '')
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  const unknown = configured.filter(id => !isProviderId(id));
+  if (unknown.length > 0) {
+    console.warn(`Ignoring unknown translation providers: ${unknown.join(', ')}`);
+  }
+
+  const ids = configured.filter(isProviderId);
+  const defaults = getProxyBaseUrl() ? DEFAULT_PROXY_CHAIN : DEFAULT_CHAIN;
+  const chain = ids.length > 0 ? ids : defaults;
+  return [...chain, ...(chain.includes('local') ? [] : ['local' as const])].map(id => PROVIDERS[id]);
+};
+
+// Runs an operation against each provider in the chain until one succeeds.
+// A failed or timed-out attempt falls through to the next provider; when every remote provider
+// fails with a transient error they are retried with backoff. Only then does the offline `local`
+// provider answer, and `onFallback` gets the remote error so the UI can still show what went wrong.
+// If `local` can't answer either, the remote error is thrown. Aborting `signal` stops everything.
+// Failures reject with a TranslationError.
+export const runProviderChain = async <T>(
+  operation: ProviderOperation,
+  call: (provider: TranslationProvider, signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
+  onFallback?: (remoteError: TranslationError) => void
+): Promise<T> => {
+  const chain = getProviderChain().filter(provider => provider[operation]);
+  if (chain.length === 0) {
+    throw new TranslationError('auth', `No translation provider configured for "${operation}"`);
+  }
+  const remote = chain.filter(provider => provider.id !== 'local');
+  const fallback = chain.find(provider => provider.id === 'local');
+
+  const attempt = async (provider: TranslationProvider) => {
+    const step = withTimeout(signal, STEP_TIMEOUT_MS[operation], `${provider.id} ${operation}`);
+    try {
+      return await raceAbort(call(provider, step.signal), step.signal);
+    } finally {
+      step.clear();
+    }
+  };
+
+  if (remote.length === 0) return withRetry(() => attempt(fallback!), signal);
+
+  try {
+    return await withRetry(async () => {
+      let lastError: unknown;
+      for (const provider of remote) {
+        try {
+          return await attempt(provider);
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          console.warn(`Provider "${provider.id}" failed to ${operation}, trying next...`, error);
+          lastError = error;
+        }
+      }
+      throw lastError;
+    }, signal);
+  } catch (error) {
+    if (!fallback || signal?.aborted || isAbortError(error)) throw error;
+    const remoteError = toTranslationError(error);
+    try {
+      const result = await attempt(fallback);
+      console.warn(`Remote providers failed to ${operation}, answered offline`, remoteError);
+      onFallback?.(remoteError);
+      return result;
+    } catch (fallbackError) {
+      if (signal?.aborted) throw fallbackError;
+      throw remoteError;
+    }
+  }
+};
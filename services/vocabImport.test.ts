@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { planImport } from './vocabImport';
+import { VocabCard } from '../types';
+
+const card = (overrides: Partial<VocabCard> = {}): VocabCard => ({
+  id: '1',
+  thai: 'กิน',
+  transliteration: 'kin',
+  english: 'eat',
+  dateAdded: 1000,
+  ...overrides,
+});
+
+describe('planImport', () => {
+  it('sorts a backup into new, identical and conflicting cards', () => {
+    const saved = [card(), card({ id: '2', thai: 'น้ำ', transliteration: 'nam', english: 'water' })];
+    const backup = [
+      card({ id: 'a' }),
+      card({ id: 'b', thai: 'น้ำ', transliteration: 'naam', english: 'water' }),
+      card({ id: 'c', thai: 'ข้าว', transliteration: 'khao', english: 'rice' }),
+    ];
+
+    const plan = planImport(saved, [], backup, []);
+
+    expect(plan.newCards.map(c => c.thai)).toEqual(['ข้าว']);
+    expect(plan.identical.map(m => m.existing.id)).toEqual(['1']);
+    expect(plan.conflicts.map(m => m.existing.id)).toEqual(['2']);
+    expect(plan.invalid).toBe(0);
+  });
+
+  it('keeps homographs apart, in the backup and against saved cards', () => {
+    const he = card({ id: 'h', thai: 'เขา', transliteration: 'khao', english: 'he' });
+    const mountain = card({ id: 'm', thai: 'เขา', transliteration: 'khao', english: 'mountain' });
+
+    const fresh = planImport([], [], [he, mountain], []);
+    expect(fresh.newCards.map(c => c.english)).toEqual(['he', 'mountain']);
+
+    const withSaved = planImport([card({ ...he, id: '1' })], [], [he, mountain], []);
+    expect(withSaved.identical.map(m => m.imported.english)).toEqual(['he']);
+    expect(withSaved.newCards.map(c => c.english)).toEqual(['mountain']);
+    expect(withSaved.conflicts).toEqual([]);
+  });
+
+  it('reports a same-Thai card as a conflict only when the meanings overlap', () => {
+    const saved = [card({ english: 'eat' })];
+    const plan = planImport(saved, [], [card({ id: 'a', english: 'eat', transliteration: 'gin' })], []);
+    expect(plan.conflicts.map(m => m.imported.transliteration)).toEqual(['gin']);
+  });
+
+  it('counts entries missing a field it compares as invalid instead of failing', () => {
+    const { transliteration, ...noTransliteration } = card({ id: 'a' });
+    const { dateAdded, ...noDate } = card({ id: 'b' });
+
+    const plan = planImport([card()], [], [noTransliteration, noDate, { thai: 'น้ำ', english: 'water' }, null], []);
+
+    expect(plan.invalid).toBe(4);
+    expect(plan.identical).toEqual([]);
+    expect(plan.newCards).toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+import { ImportMatch, ImportPlan, ImportResolution, ImportSummary, VocabCard, VocabFolder } from "../types";
+import { migrateCard, newExampleId } from "./examples";
+import { cardMeanings } from "./senses";
+
+// Importing backups without duplicating words. Cards saved on two devices get
+// different ids, so cards are matched by their normalized Thai and meanings instead,
+// then compared by content to tell identical copies from conflicting ones.
+
+// Thai without spacing, zero-width characters or punctuation, for comparing words
+export const thaiKey = (text: string): string =>
+  text.normalize('NFC').replace(/[\s\u200B-\u200D\uFEFF.,!?'"()]/g, '');
+
+// English gloss without case, notes, articles or punctuation
+export const englishKey = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\b(to|a|an|the)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const sortedKeys = (values: string[], key: (value: string) => string) => values.map(key).sort().join('|');
+
+// Same Thai with a meaning in common; homographs such as เขา "he" and เขา "mountain" stay apart
+const sameWord = (a: VocabCard, b: VocabCard): boolean => {
+  if (thaiKey(a.thai) !== thaiKey(b.thai)) return false;
+  const meanings = cardMeanings(a).map(englishKey);
+  return cardMeanings(b).some(meaning => meanings.includes(englishKey(meaning)));
+};
+
+// Same word, meanings, romanization and examples; folder and review progress don't count
+const sameContent = (a: VocabCard, b: VocabCard): boolean =>
+  sortedKeys(cardMeanings(a), englishKey) === sortedKeys(cardMeanings(b), englishKey)
+  && a.transliteration.trim().toLowerCase() === b.transliteration.trim().toLowerCase()
+  && (a.partOfSpeech || '') === (b.partOfSpeech || '')
+  && (a.classifier || '') === (b.classifier || '')
+  && sortedKeys((a.examples || []).map(e => e.thai), thaiKey) === sortedKeys((b.examples || []).map(e => e.thai), thaiKey);
+
+// Every field the import compares or sorts by must be there; anything else is counted as invalid
+const isCard = (value: unknown): value is VocabCard => {
+  const card = value as VocabCard;
+  return typeof card === 'object' && card !== null
+    && typeof card.id === 'string'
+    && typeof card.thai === 'string' && thaiKey(card.thai) !== ''
+    && typeof card.english === 'string'
+    && typeof card.transliteration === 'string'
+    && typeof card.dateAdded === 'number';
+};
+
+// The existing card with the imported one's extra senses and examples; missing fields filled in.
+// Review progress comes from whichever copy is scheduled further out.
+export const mergeCards = (existing: VocabCard, imported: VocabCard): VocabCard => {
+  const senses = [...(existing.senses || [])];
+  imported.senses?.forEach(sense => {
+    if (!senses.some(s => englishKey(s.definition) === englishKey(sense.definition))) senses.push(sense);
+  });
+  const examples = [...(existing.examples || [])];
+  imported.examples?.forEach(example => {
+    if (!examples.some(e => thaiKey(e.thai) === thaiKey(example.thai))) examples.push({ ...example, id: newExampleId() });
+  });
+  const schedule = !existing.schedule || (imported.schedule && imported.schedule.due > existing.schedule.due)
+    ? imported.schedule
+    : existing.schedule;
+
+  return {
+    ...existing,
+    transliteration: existing.transliteration || imported.transliteration,
+    english: existing.english || imported.english,
+    ...(existing.partOfSpeech || imported.partOfSpeech ? { partOfSpeech: existing.partOfSpeech || imported.partOfSpeech } : {}),
+    ...(existing.classifier || imported.classifier ? { classifier: existing.classifier || imported.classifier } : {}),
+    ...(senses.length > 0 ? { senses } : {}),
+    ...(examples.length > 0 ? { examples } : {}),
+    ...(schedule ? { schedule } : {}),
+    dateAdded: Math.min(existing.dateAdded, imported.dateAdded || existing.dateAdded),
+  };
+};
+
+// Sorts a backup's cards into new, identical and conflicting ones, without changing anything
+export const planImport = (
+  vocabulary: VocabCard[],
+  folders: VocabFolder[],
+  importedVocab: unknown[],
+  importedFolders: unknown[]
+): ImportPlan => {
+  // Folders match by id, or by name when the same folder was created on another device
+  const folderIds = new Map<string, string>();
+  const newFolders: VocabFolder[] = [];
+  importedFolders.forEach(value => {
+    const folder = value as VocabFolder;
+    if (typeof folder !== 'object' || folder === null || typeof folder.id !== 'string' || typeof folder.name !== 'string') return;
+    const match = folders.find(f => f.id === folder.id)
+      || [...folders, ...newFolders].find(f => f.name.trim().toLowerCase() === folder.name.trim().toLowerCase());
+    if (match) {
+      folderIds.set(folder.id, match.id);
+    } else {
+      newFolders.push(folder);
+      folderIds.set(folder.id, folder.id);
+    }
+  });
+
+  // Repeats within the backup are merged into their first copy
+  const incoming: VocabCard[] = [];
+  let invalid = 0;
+  importedVocab.forEach(value => {
+    if (!isCard(value)) {
+      invalid++;
+      return;
+    }
+    const folderId = value.folderId && (folderIds.get(value.folderId) || folders.find(f => f.id === value.folderId)?.id);
+    const card: VocabCard = { ...migrateCard(value), folderId: folderId || undefined };
+    const earlier = incoming.findIndex(c => sameWord(c, card));
+    if (earlier === -1) incoming.push(card);
+    else incoming[earlier] = mergeCards(incoming[earlier], card);
+  });
+
+  const existingIds = new Set(vocabulary.map(c => c.id));
+  const plan: ImportPlan = { newCards: [], identical: [], conflicts: [], newFolders, invalid };
+  incoming.forEach(card => {
+    const existing = vocabulary.find(c => sameWord(c, card));
+    if (!existing) {
+      // A different word that happens to reuse an id gets a fresh one
+      const id = existingIds.has(card.id) ? Date.now().toString() + Math.random().toString(36).slice(2, 8) : card.id;
+      plan.newCards.push({ ...card, id });
+    } else {
+      const match: ImportMatch = { imported: card, existing };
+      (sameContent(existing, card) ? plan.identical : plan.conflicts).push(match);
+    }
+  });
+  return plan;
+};
+
+// Applies a plan with one resolution per conflict (same order as plan.conflicts)
+export const applyImport = (
+  vocabulary: VocabCard[],
+  folders: VocabFolder[],
+  plan: ImportPlan,
+  resolutions: ImportResolution[]
+): { vocabulary: VocabCard[]; folders: VocabFolder[]; summary: ImportSummary } => {
+  const replacements = new Map<string, VocabCard>();
+  const counts = { keep: 0, overwrite: 0, merge: 0 };
+  plan.conflicts.forEach(({ imported, existing }, idx) => {
+    const resolution = resolutions[idx] || 'keep';
+    counts[resolution]++;
+    if (resolution === 'overwrite') replacements.set(existing.id, { ...imported, id: existing.id });
+    if (resolution === 'merge') replacements.set(existing.id, mergeCards(existing, imported));
+  });
+
+  return {
+    vocabulary: [...vocabulary.map(card => replacements.get(card.id) || card), ...plan.newCards],
+    folders: [...folders, ...plan.newFolders],
+    summary: {
+      added: plan.newCards.length,
+      identical: plan.identical.length,
+      kept: counts.keep,
+      overwritten: counts.overwrite,
+      merged: counts.merge,
+      folders: plan.newFolders.length,
+      invalid: plan.invalid,
+    },
+  };
+};
@@ -1,3 +1,5 @@
+import type { TranslationError } from './services/translationErrors';
+
 export enum LoadingState {
   IDLE = 'IDLE',
   LOADING = 'LOADING',
@@ -11,7 +13,11 @@ export interface Segment {
   transliteration: string;
   english: string;
   partOfSpeech: string;
+  classifier?: string;      // Counting word for nouns, e.g. ตัว for แมว
   synonyms?: string[];
+  antonyms?: string[];
+  relatedWords?: string[];  // Same topic or word family
+  collocations?: string[];  // Common phrases using the word
 }
 
 export interface TranslationResult {
@@ -21,6 +27,8 @@ export interface TranslationResult {
   segments: Segment[];
   exampleSentenceThai: string;
   exampleSentenceEnglish: string;
+  registerVariants?: RegisterVariant[];
+  speechProfile?: SpeechProfile; // Profile the result was produced for
   audioBase64?: string; // Optional, might be fetched separately
 }
 
@@ -35,15 +43,112 @@ export interface VocabCard {
   folderId?: string; // ID of the folder it belongs to. Undefined means 'General'/'Uncategorized'
   thai: string;
   transliteration: string;
+  transliterationEdited?: boolean; // Written by the user, so shown as is rather than romanized
   english: string;
   partOfSpeech?: string;
-  exampleThai?: string;
+  classifier?: string;
+  senses?: WordSense[]; // Senses picked when saving; the quiz tests these rather than `english`
+  examples?: ExampleSentence[];
+  exampleStatus?: 'generating' | 'failed'; // Examples requested in the background when the card was saved
+  exampleThai?: string;    // Legacy single example, moved into `examples` on load
   exampleEnglish?: string;
   dateAdded: number;
+  schedule?: CardSchedule; // Spaced-repetition state; a card without one is new and due now
+}
+
+export type ImportResolution = 'keep' | 'overwrite' | 'merge';
+
+// An imported card matched to a saved card with the same Thai and a meaning in common
+export interface ImportMatch {
+  imported: VocabCard;
+  existing: VocabCard;
+}
+
+// What importing a backup would change, shown before anything is saved
+export interface ImportPlan {
+  newCards: VocabCard[];
+  identical: ImportMatch[]; // Already saved; skipped
+  conflicts: ImportMatch[]; // Same word, different content; resolved one by one
+  newFolders: VocabFolder[];
+  invalid: number;          // Entries that are not cards
+}
+
+export interface ImportSummary {
+  added: number;
+  identical: number;
+  kept: number;
+  overwritten: number;
+  merged: number;
+  folders: number;
+  invalid: number;
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// SM-2 review state of a card
+export interface CardSchedule {
+  ease: number;     // Interval multiplier, lowered each time the card is hard or forgotten
+  interval: number; // Days until the next review; 0 while relearning
+  due: number;      // Timestamp of the next review
+  reps: number;     // Successful reviews in a row
+  lapses: number;   // Times the card was forgotten after being learned
+}
+
+export type SenseRegister = 'neutral' | 'casual' | 'formal' | 'slang' | 'literary';
+
+// One meaning of a word, as a dictionary lists it
+export interface WordSense {
+  partOfSpeech: string;
+  definition: string;
+  register: SenseRegister;
+  exampleThai: string;
+  exampleEnglish: string;
+  matchesContext?: boolean; // The sense the word has in the text it was looked up from
+}
+
+export type ExampleLevel = 'beginner' | 'intermediate' | 'advanced';
+
+export interface ExampleSentence {
+  id: string;
+  thai: string;
+  english: string;
+  level: ExampleLevel;
+}
+
+// An example as returned by a provider, before it gets an id
+export type GeneratedExample = Omit<ExampleSentence, 'id'>;
+
+// What the examples step is asked for: one new sentence per entry of `levels`
+export interface ExampleRequest {
+  thai: string;
+  english: string;
+  levels: ExampleLevel[];
+  avoid: string[]; // Sentences the card already has
+}
+
+// A saved card sent back to the model to be checked
+export interface CardRevisionRequest {
+  thai: string;
+  transliteration: string;
+  english: string;
+  partOfSpeech: string;
+  classifier: string;
+  examples: GeneratedExample[];
+}
+
+// Corrected fields proposed by the model, accepted by the user one by one.
+// An empty field means nothing was proposed for it.
+export interface CardRevision {
+  transliteration: string;
+  english: string;
+  partOfSpeech: string;
+  classifier: string;
+  examples: GeneratedExample[];
 }
 
 export enum AppTab {
   TRANSLATE = 'TRANSLATE',
+  READER = 'READER',
   VOCABULARY = 'VOCABULARY',
   QUIZ = 'QUIZ'
 }
@@ -52,6 +157,102 @@ export interface QuizQuestion {
   question: string;
   correctAnswer: string;
   options: string[];
-  type: 'THAI_TO_ENG' | 'ENG_TO_THAI';
+  type: 'THAI_TO_ENG' | 'ENG_TO_THAI' | 'CLASSIFIER';
   card?: VocabCard;
-}
\ No newline at end of file
+}
+
+// Shape returned by the fast translation step (quickTranslate)
+export interface QuickTranslation {
+  translatedText: string;
+  transliteration: string;
+}
+
+// Shape returned by the analysis step (analyzeText)
+export interface TextAnalysis {
+  segments: Segment[];
+  exampleSentenceThai: string;
+  exampleSentenceEnglish: string;
+  registerVariants?: RegisterVariant[];
+  isOffline?: boolean; // Produced by the offline dictionary fallback
+  remoteError?: TranslationError; // Why the remote providers didn't answer, when offline
+}
+
+export type GrammarPointKind = 'question' | 'negation' | 'aspect' | 'particle' | 'politeness' | 'other';
+
+// One grammar feature of a sentence, linked to the breakdown segments it covers
+export interface GrammarPoint {
+  kind: GrammarPointKind;
+  title: string;
+  explanation: string;
+  segmentIndices: number[];
+}
+
+export interface GrammarAnalysis {
+  structure: string; // Sentence pattern, e.g. "Subject + Verb + Object + ไหม"
+  points: GrammarPoint[];
+  isOffline?: boolean; // Produced by the built-in marker rules
+  remoteError?: TranslationError; // Why the remote providers didn't answer, when offline
+}
+
+// Picture sent for text extraction, base64 without the data: URL prefix
+export interface ImageInput {
+  data: string;
+  mimeType: string;
+}
+
+// Part of an image, as fractions (0-1) of its width and height
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A line of Thai text found in a photo
+export interface OcrLine {
+  text: string;
+  region?: ImageRegion; // Missing when the model gave no usable box
+}
+
+export interface HistoryEntry {
+  id: string;
+  result: TranslationResult;
+  timestamp: number;
+  pinned?: boolean;
+}
+
+// 'saved' shows transliterations as the provider returned them or as stored on a card
+export type RomanizationScheme = 'rtgs' | 'paiboon' | 'ipa' | 'saved';
+
+export interface UserSettings {
+  romanization: RomanizationScheme;
+  toneColors: boolean; // Colour Thai syllables by tone
+  speakerGender: SpeakerGender;
+  register: Register;
+  studyFront: StudyFront; // Side of a flashcard shown first when studying
+}
+
+export type StudyFront = 'thai' | 'english';
+
+export type SpeakerGender = 'male' | 'female' | 'unspecified';
+export type Register = 'casual' | 'polite' | 'formal';
+
+// Who is speaking, so Thai output uses the right particles and register
+export interface SpeechProfile {
+  gender: SpeakerGender;
+  register: Register;
+}
+
+// The same sentence said in another register
+export interface RegisterVariant {
+  register: Register;
+  thai: string;
+  english: string; // Nuance, e.g. "to a friend"
+}
+
+// One sentence of a paragraph-mode translation
+export interface SentenceGloss {
+  text: string;
+  result?: TranslationResult; // Undefined until translated
+  error?: TranslationError; // Why it couldn't be translated
+}
@@ -12,14 +12,29 @@ export default defineConfig(({ mode }) => {
   // 2. .env file (env) - Used during local development
   const apiKey = process.env.API_KEY || env.API_KEY;
 
+  // Comma separated provider chain, e.g. "mock" for offline development
+  const translationProviders = process.env.TRANSLATION_PROVIDERS || env.TRANSLATION_PROVIDERS || '';
+
+  // Base URL of server.js (e.g. "/" when it also serves the app). When set, the
+  // Gemini key stays on the server and is NOT embedded into the bundle.
+  const apiProxyUrl = process.env.API_PROXY_URL || env.API_PROXY_URL || '';
+
   return {
     plugins: [react()],
     // Vital for GitHub Pages: Ensures assets are loaded relative to the index.html
     // This allows the app to work in a subdirectory (e.g., username.github.io/repo-name/)
     base: './', 
     define: {
-      // This embeds the API key into the code during the build process.
-      'process.env.API_KEY': JSON.stringify(apiKey)
+      // Without a proxy this embeds the API key into the code during the build process.
+      'process.env.API_KEY': JSON.stringify(apiProxyUrl ? '' : apiKey),
+      'process.env.API_PROXY_URL': JSON.stringify(apiProxyUrl),
+      'process.env.TRANSLATION_PROVIDERS': JSON.stringify(translationProviders)
+    },
+    server: {
+      // `npm run dev` forwards API calls to a locally running `npm start`
+      proxy: {
+        '/api': 'http://localhost:3000',
+      },
     },
   };
 });
\ No newline at end of file